@@ -0,0 +1,41 @@
+// Imported into the generated service worker (see workbox.importScripts in vite.config.ts)
+// to handle arrival alert notifications.
+
+// Tapping an arrival alert notification opens the stop it was set for,
+// reusing an open app window when there is one.
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL((event.notification.data && event.notification.data.url) || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window" }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        return existing.navigate(url).then((client) => (client || existing).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
+
+// Arrival alerts pushed by the arrival-alerts edge function.
+// Open tabs are told so they can drop their local copy of the alert.
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+  const payload = event.data.json();
+
+  event.waitUntil(
+    Promise.all([
+      self.registration.showNotification(payload.title, {
+        body: payload.body,
+        tag: payload.ruleId,
+        icon: "/icon-192.png",
+        data: { url: payload.url },
+      }),
+      self.clients.matchAll({ type: "window" }).then((windows) =>
+        windows.forEach((client) => client.postMessage({ type: "arrival-alert-pushed", ruleId: payload.ruleId }))
+      ),
+    ])
+  );
+});
@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+// Build the campus walking graph from an OpenStreetMap export.
+//
+// Export the walkable ways around campus from Overpass (https://overpass-turbo.eu)
+// as JSON, including their nodes:
+//
+//   [out:json][timeout:60];
+//   way["highway"~"^(footway|path|pedestrian|steps|living_street|service|residential|unclassified|tertiary|secondary|track|cycleway)$"]
+//     (36.976,-86.478,36.998,-86.446);
+//   (._;>;);
+//   out body;
+//
+// then run:
+//
+//   npm run walking-graph -- export.json
+//
+// The output replaces src/data/campusWalkingGraph.json. Nodes are [lat, lon]
+// rounded to ~10cm; edges are [from, to, kind] with kind as in EDGE_KINDS.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const OUTPUT = fileURLToPath(new URL('../src/data/campusWalkingGraph.json', import.meta.url));
+
+// Must match WalkingEdgeKind in src/lib/walkingRouter.ts
+const EDGE_KINDS = { path: 0, crossing: 1, steps: 2, road: 3 };
+
+const PATH_HIGHWAYS = new Set(['footway', 'path', 'pedestrian', 'living_street', 'track', 'cycleway']);
+const ROAD_HIGHWAYS = new Set(['service', 'residential', 'unclassified', 'tertiary', 'secondary']);
+
+const isWalkable = (tags) => {
+  if (!PATH_HIGHWAYS.has(tags.highway) && !ROAD_HIGHWAYS.has(tags.highway) && tags.highway !== 'steps') return false;
+  if (tags.foot === 'no' || tags.access === 'private' || tags.access === 'no') return tags.foot === 'yes';
+  // Sidewalks mapped as their own ways are routed instead of the road
+  if (tags.sidewalk === 'separate') return false;
+  return true;
+};
+
+const edgeKind = (tags) => {
+  if (tags.highway === 'steps') return EDGE_KINDS.steps;
+  if (tags.footway === 'crossing' || tags.path === 'crossing') return EDGE_KINDS.crossing;
+  if (PATH_HIGHWAYS.has(tags.highway)) return EDGE_KINDS.path;
+  return EDGE_KINDS.road;
+};
+
+const round = (n) => Math.round(n * 1e6) / 1e6;
+
+const [input] = process.argv.slice(2);
+if (!input) {
+  console.error('Usage: npm run walking-graph -- <overpass-export.json>');
+  process.exit(1);
+}
+
+const { elements = [] } = JSON.parse(readFileSync(input, 'utf8'));
+const osmNodes = new Map(elements.filter(e => e.type === 'node').map(e => [e.id, e]));
+
+const nodeIndex = new Map();
+const nodes = [];
+const edges = new Map();
+
+const indexOf = (osmId) => {
+  if (!nodeIndex.has(osmId)) {
+    const node = osmNodes.get(osmId);
+    nodeIndex.set(osmId, nodes.length);
+    nodes.push([round(node.lat), round(node.lon)]);
+  }
+  return nodeIndex.get(osmId);
+};
+
+let wayCount = 0;
+elements
+  .filter(e => e.type === 'way' && e.tags && isWalkable(e.tags))
+  .forEach(way => {
+    const ids = way.nodes.filter(id => osmNodes.has(id));
+    if (ids.length < 2) return;
+    wayCount++;
+    const kind = edgeKind(way.tags);
+    for (let i = 1; i < ids.length; i++) {
+      const a = indexOf(ids[i - 1]);
+      const b = indexOf(ids[i]);
+      if (a === b) continue;
+      const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+      // Where ways overlap, keep the more walkable kind
+      const existing = edges.get(key);
+      if (!existing || kind < existing[2]) edges.set(key, [a, b, kind]);
+    }
+  });
+
+const graph = {
+  version: 1,
+  source: 'OpenStreetMap contributors (ODbL)',
+  generatedAt: new Date().toISOString(),
+  nodes,
+  edges: Array.from(edges.values()),
+};
+
+writeFileSync(OUTPUT, JSON.stringify(graph) + '\n');
+console.log(`${wayCount} ways -> ${nodes.length} nodes, ${graph.edges.length} edges written to ${OUTPUT}`);
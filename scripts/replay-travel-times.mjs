@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+// Replay a recorded vehicle log through the travel-time model and check the
+// stop-to-stop estimates it learns against the times the log was made with.
+//
+//   npm run replay-travel-times [-- path/to/log.json]
+//
+// The log (scripts/fixtures/vehicle-log.json by default) holds the route config
+// it was recorded against, the snapshots, and the expected segment times.
+// Exits non-zero when a segment is missing or off by more than the tolerance.
+
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const DEFAULT_LOG = fileURLToPath(new URL('./fixtures/vehicle-log.json', import.meta.url));
+// Passage times are interpolated between reports, so allow some slack
+const TOLERANCE = 0.1;
+
+// Load the model through Vite so it runs the same TypeScript as the app
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'error',
+});
+
+try {
+  const { replayVehicleLog, getObservedSegmentSecs } = await server.ssrLoadModule('/src/lib/travelTimes.ts');
+  const fixture = JSON.parse(readFileSync(process.argv[2] || DEFAULT_LOG, 'utf8'));
+  const model = replayVehicleLog(fixture.log, fixture.routes);
+  // Estimates are bucketed by weekday and hour, so ask about when the log was recorded
+  const at = new Date(fixture.log[0].fetchedAt);
+
+  let failures = 0;
+  fixture.expected.forEach(({ routeTag, dirTag, fromStop, toStop, secs }) => {
+    const observed = getObservedSegmentSecs(model, routeTag, dirTag, fromStop, toStop, at);
+    const ok = observed !== null && Math.abs(observed - secs) <= secs * TOLERANCE;
+    if (!ok) failures++;
+    const got = observed === null ? 'not observed' : `${observed.toFixed(1)}s`;
+    console.log(`${ok ? 'ok' : 'FAIL'}: ${routeTag} ${dirTag} ${fromStop} -> ${toStop}: ${got} (expected ${secs}s)`);
+  });
+
+  console.log(failures === 0 ? 'Travel time replay OK' : `${failures} segment(s) off`);
+  process.exitCode = failures === 0 ? 0 : 1;
+} finally {
+  await server.close();
+}
@@ -0,0 +1,34 @@
+#!/usr/bin/env node
+// Check src/data/serviceCalendar.json for overlapping terms or breaks, gaps
+// between terms, malformed dates and a calendar that has run out or is about to.
+//
+//   npm run validate-calendar
+//
+// Exits non-zero on errors; warnings are printed but don't fail.
+
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const CALENDAR = fileURLToPath(new URL('../src/data/serviceCalendar.json', import.meta.url));
+
+// Load the validator through Vite so it runs the same TypeScript as the app
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'error',
+});
+
+try {
+  const { validateServiceCalendar } = await server.ssrLoadModule('/src/lib/serviceCalendar.ts');
+  const calendar = JSON.parse(readFileSync(CALENDAR, 'utf8'));
+  const issues = validateServiceCalendar(calendar);
+
+  if (issues.length === 0) {
+    console.log('Service calendar OK');
+  }
+  issues.forEach(issue => console.log(`${issue.severity}: ${issue.message}`));
+  process.exitCode = issues.some(issue => issue.severity === 'error') ? 1 : 0;
+} finally {
+  await server.close();
+}
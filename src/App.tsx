@@ -7,6 +7,8 @@ import Index from "./pages/Index";
 import QRCodes from "./pages/QRCodes";
 import Schedule from "./pages/Schedule";
 import Feedback from "./pages/Feedback";
+import Classes from "./pages/Classes";
+import Timetable from "./pages/Timetable";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,6 +24,8 @@ const App = () => (
           <Route path="/qrcodes" element={<QRCodes />} />
           <Route path="/schedule" element={<Schedule />} />
           <Route path="/feedback" element={<Feedback />} />
+          <Route path="/classes" element={<Classes />} />
+          <Route path="/timetable" element={<Timetable />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
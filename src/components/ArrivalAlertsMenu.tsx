@@ -0,0 +1,57 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useArrivalAlerts } from '@/hooks/use-arrival-alerts';
+import { BellRing, X } from 'lucide-react';
+
+interface ArrivalAlertsMenuProps {
+  onSelectStop: (stopId: string) => void;
+}
+
+// Header button listing every active arrival alert; hidden when there are none
+const ArrivalAlertsMenu = ({ onSelectStop }: ArrivalAlertsMenuProps) => {
+  const { alerts, cancelAlert } = useArrivalAlerts();
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="relative p-2.5 rounded-xl bg-secondary text-primary hover:bg-secondary/80 transition-colors"
+          title="Arrival alerts"
+        >
+          <BellRing className="w-5 h-5" />
+          <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center">
+            {alerts.length}
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="z-[1100] w-72 p-2">
+        <p className="px-2 py-1.5 text-xs font-medium text-muted-foreground">Arrival alerts</p>
+        <div className="space-y-1">
+          {alerts.map(alert => (
+            <div key={alert.id} className="flex items-center gap-2 p-2 rounded-lg hover:bg-secondary transition-colors">
+              <button
+                onClick={() => onSelectStop(alert.stopId)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <p className="text-sm font-medium truncate">{alert.stopTitle}</p>
+                <p className="text-xs text-muted-foreground">
+                  {alert.routeTitle} · within {alert.leadMinutes} min
+                </p>
+              </button>
+              <button
+                onClick={() => cancelAlert(alert.id)}
+                className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-background/60 transition-colors"
+                title="Cancel alert"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ArrivalAlertsMenu;
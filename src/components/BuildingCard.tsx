@@ -1,14 +1,20 @@
 import { useState, useEffect, useRef } from 'react';
 import { CampusBuilding, CATEGORY_ICONS } from '@/lib/campusBuildings';
+import { Route } from '@/types/transit';
+import TripPlanner from './TripPlanner';
 import { X, MapPin, GraduationCap, History } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface BuildingCardProps {
   building: CampusBuilding;
   onClose: () => void;
+  routes: Route[];
+  userLocation: { lat: number; lon: number } | null;
+  onGetLocation: () => void;
+  onGetDirections: (building: CampusBuilding) => void;
 }
 
-const BuildingCard = ({ building, onClose }: BuildingCardProps) => {
+const BuildingCard = ({ building, onClose, routes, userLocation, onGetLocation, onGetDirections }: BuildingCardProps) => {
   const [isClosing, setIsClosing] = useState(false);
   const [isOpening, setIsOpening] = useState(true);
   const [panelHeight, setPanelHeight] = useState(55);
@@ -145,6 +151,15 @@ const BuildingCard = ({ building, onClose }: BuildingCardProps) => {
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-4">
+          {/* Getting here */}
+          <TripPlanner
+            destination={building}
+            routes={routes}
+            userLocation={userLocation}
+            onRequestLocation={onGetLocation}
+            onShowWalkingRoute={onGetDirections}
+          />
+
           {/* Building Image Placeholder */}
           <div className="w-full h-40 rounded-xl bg-secondary mb-4 flex items-center justify-center overflow-hidden">
             <div className="text-center text-muted-foreground">
@@ -1,7 +1,8 @@
 import { useEffect, useState, useRef, useMemo } from 'react';
-import { VehicleLocation, Route, Stop } from '@/types/transit';
-import { X, Navigation, Gauge, Clock, RefreshCw } from 'lucide-react';
+import { VehicleLocation, Route } from '@/types/transit';
+import { X, Navigation, Gauge, Clock, RefreshCw, Milestone } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { matchVehicleToRoute } from '@/lib/mapMatching';
 
 interface BusCardProps {
   vehicle: VehicleLocation;
@@ -10,19 +11,6 @@ interface BusCardProps {
   onClose: () => void;
 }
 
-// Calculate distance between two lat/lon points in meters
-const getDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-  const R = 6371000;
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-};
-
 // Height constants
 const HEADER_HEIGHT = 150;
 const INFO_ITEM_HEIGHT = 60;
@@ -56,51 +44,17 @@ const BusCard = ({ vehicle, route, allRoutes, onClose }: BusCardProps) => {
   const color = route.color === '000000' ? '6B7280' : route.color;
   const speedMph = Math.round(vehicle.speedKmHr * 0.621371);
 
-  // Get nearest stop
-  const nearestStop = useMemo(() => {
-    let nearest: Stop | null = null;
-    let minDistance = Infinity;
-    
-    for (const stop of route.stops) {
-      const distance = getDistance(vehicle.lat, vehicle.lon, stop.lat, stop.lon);
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearest = stop;
-      }
-    }
-    
-    return nearest && minDistance < 500 ? nearest : null;
-  }, [vehicle, route]);
-
-  // Get next stop from direction
-  const nextStop = useMemo(() => {
-    const direction = route.directions.find(d => d.tag === vehicle.dirTag);
-    if (!direction || direction.stops.length === 0) return null;
-    
-    let closestStopIndex = 0;
-    let minDistance = Infinity;
-    
-    direction.stops.forEach((stopTag, index) => {
-      const stop = route.stops.find(s => s.tag === stopTag);
-      if (stop) {
-        const distance = getDistance(vehicle.lat, vehicle.lon, stop.lat, stop.lon);
-        if (distance < minDistance) {
-          minDistance = distance;
-          closestStopIndex = index;
-        }
-      }
-    });
-    
-    const nextStopIndex = Math.min(closestStopIndex + 1, direction.stops.length - 1);
-    const nextStopTag = direction.stops[nextStopIndex];
-    return route.stops.find(s => s.tag === nextStopTag) || null;
-  }, [vehicle, route]);
+  // Where along its direction the bus is
+  const routeProgress = useMemo(() => matchVehicleToRoute(vehicle, route), [vehicle, route]);
+  const nearestStop = routeProgress?.atStop || null;
+  const nextStop = routeProgress?.nextStop || null;
 
   // Info items to display
   const infoItems = [
     { label: 'Speed', value: `${speedMph} mph`, icon: Gauge },
     ...(nearestStop ? [{ label: 'At Stop', value: nearestStop.title, icon: Navigation }] : []),
     ...(nextStop && !nearestStop ? [{ label: 'Next Stop', value: nextStop.title, icon: Navigation }] : []),
+    ...(routeProgress ? [{ label: 'Route Progress', value: `${Math.round(routeProgress.progress * 100)}% complete`, icon: Milestone }] : []),
   ];
 
   const minHeight = calculateMinHeight(infoItems.length);
@@ -5,10 +5,20 @@ import 'leaflet-routing-machine';
 import 'leaflet-routing-machine/dist/leaflet-routing-machine.css';
 import { Route, VehicleLocation, Stop } from '@/types/transit';
 import { CAMPUS_BUILDINGS, CampusBuilding, CATEGORY_ICONS, BuildingCategory } from '@/lib/campusBuildings';
+import { createVehicleTrack, estimateVehiclePosition, easePosition, VehicleTrack } from '@/lib/vehicleMotion';
+import { matchVehicleToRoute } from '@/lib/mapMatching';
+import { findWalkingRoute } from '@/lib/walkingRouter';
+import { useWalkingGraph } from '@/hooks/use-walking-graph';
+import { useNow } from '@/hooks/use-now';
+import { isRouteInService } from '@/lib/serviceHours';
 
 interface BusMapProps {
   routes: Route[];
   vehicles: VehicleLocation[];
+  /** When the vehicle positions were fetched */
+  vehiclesAsOf?: Date | null;
+  /** Positions are last-known rather than live (offline or feed not updating) */
+  vehiclesStale?: boolean;
   selectedRoute: string | null;
   selectedStop: Stop | null;
   selectedVehicle: VehicleLocation | null;
@@ -35,9 +45,14 @@ const ROUTE_STYLES: Record<number, { dashArray?: string; weight: number; offset:
   4: { weight: 3, offset: -5 },
 };
 
+const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+
 const BusMap = forwardRef<BusMapHandle, BusMapProps>(({ 
   routes, 
   vehicles, 
+  vehiclesAsOf = null,
+  vehiclesStale = false,
   selectedRoute, 
   selectedStop, 
   selectedVehicle, 
@@ -55,9 +70,15 @@ const BusMap = forwardRef<BusMapHandle, BusMapProps>(({
   const markersRef = useRef<L.LayerGroup | null>(null);
   const polylinesRef = useRef<L.LayerGroup | null>(null);
   const vehicleMarkersRef = useRef<L.LayerGroup | null>(null);
+  // Drawn vehicle markers and the report each one is animating from, by vehicle id
+  const vehicleTracksRef = useRef(new Map<string, { marker: L.Marker; track: VehicleTrack }>());
   const buildingMarkersRef = useRef<L.LayerGroup | null>(null);
   const userLocationMarkerRef = useRef<L.Marker | null>(null);
   const routingControlRef = useRef<L.Routing.Control | null>(null);
+  const { walkingGraph } = useWalkingGraph();
+  const nowMs = useNow(60000);
+  // Routes outside their hours, as a string so the lines only redraw when one starts or stops
+  const outOfServiceKey = routes.filter(r => !isRouteInService(r.tag, new Date(nowMs))).map(r => r.tag).join(',');
 
   useImperativeHandle(ref, () => ({
     getMap: () => mapRef.current,
@@ -164,10 +185,12 @@ const BusMap = forwardRef<BusMapHandle, BusMapProps>(({
   useEffect(() => {
     if (!polylinesRef.current) return;
     polylinesRef.current.clearLayers();
+    const outOfService = new Set(outOfServiceKey.split(','));
 
     displayedRoutes.forEach((route, routeIndex) => {
       const color = `#${route.color === '000000' ? '6B7280' : route.color}`;
       const style = ROUTE_STYLES[routeIndex % Object.keys(ROUTE_STYLES).length];
+      const inService = !outOfService.has(route.tag);
       
       route.paths.forEach(path => {
         const latLngs = path.map(point => [point.lat, point.lon] as [number, number]);
@@ -185,13 +208,14 @@ const BusMap = forwardRef<BusMapHandle, BusMapProps>(({
         const polyline = L.polyline(offsetPath, {
           color,
           weight: style.weight,
-          opacity: 0.9,
+          // Faded while the route isn't running
+          opacity: inService ? 0.9 : 0.35,
           dashArray: style.dashArray,
           lineCap: 'round',
           lineJoin: 'round',
         });
         
-        polyline.bindTooltip(route.title, {
+        polyline.bindTooltip(inService ? route.title : `${route.title} (not in service)`, {
           sticky: true,
           className: 'route-tooltip',
         });
@@ -199,7 +223,7 @@ const BusMap = forwardRef<BusMapHandle, BusMapProps>(({
         polyline.addTo(polylinesRef.current!);
       });
     });
-  }, [displayedRoutes, selectedRoute]);
+  }, [displayedRoutes, selectedRoute, outOfServiceKey]);
 
   // Helper to create SVG for bus stop sign marker
   const createStopMarkerSvg = (colors: string[], isSelected: boolean): string => {
@@ -334,31 +358,8 @@ const BusMap = forwardRef<BusMapHandle, BusMapProps>(({
   // Helper to get the next stop a bus is heading to
   const getNextStopForBus = (vehicle: VehicleLocation, route: Route | undefined): string | null => {
     if (!route) return null;
-    
-    const direction = route.directions.find(d => d.tag === vehicle.dirTag);
-    if (!direction || direction.stops.length === 0) return null;
-    
-    let closestStopIndex = 0;
-    let minDistance = Infinity;
-    
-    direction.stops.forEach((stopTag, index) => {
-      const stop = route.stops.find(s => s.tag === stopTag);
-      if (stop) {
-        const distance = Math.sqrt(
-          Math.pow(stop.lat - vehicle.lat, 2) + Math.pow(stop.lon - vehicle.lon, 2)
-        );
-        if (distance < minDistance) {
-          minDistance = distance;
-          closestStopIndex = index;
-        }
-      }
-    });
-    
-    const nextStopIndex = Math.min(closestStopIndex + 1, direction.stops.length - 1);
-    const nextStopTag = direction.stops[nextStopIndex];
-    const nextStop = route.stops.find(s => s.tag === nextStopTag);
-    
-    return nextStop?.title || null;
+    const progress = matchVehicleToRoute(vehicle, route);
+    return progress?.nextStop?.title || null;
   };
 
   // Update vehicle markers
@@ -368,6 +369,10 @@ const BusMap = forwardRef<BusMapHandle, BusMapProps>(({
 
     const displayedRouteTags = new Set(displayedRoutes.map(r => r.tag));
     const filteredVehicles = vehicles.filter(v => displayedRouteTags.has(v.routeTag));
+    const fetchedAt = vehiclesAsOf ? vehiclesAsOf.getTime() : Date.now();
+    const animate = isVisible && !prefersReducedMotion();
+    const previousTracks = vehicleTracksRef.current;
+    const nextTracks = new Map<string, { marker: L.Marker; track: VehicleTrack }>();
 
     filteredVehicles.forEach(vehicle => {
       const route = routes.find(r => r.tag === vehicle.routeTag);
@@ -387,7 +392,8 @@ const BusMap = forwardRef<BusMapHandle, BusMapProps>(({
             align-items: center;
             justify-content: center;
             transform: rotate(${vehicle.heading}deg);
-            filter: ${isSelected ? 'drop-shadow(0 0 10px rgba(34, 197, 94, 0.8))' : ''};
+            filter: ${isSelected ? 'drop-shadow(0 0 10px rgba(34, 197, 94, 0.8))' : ''} ${vehiclesStale ? 'grayscale(1)' : ''};
+            opacity: ${vehiclesStale ? 0.5 : 1};
           ">
             <div style="
               width: ${innerSize}px;
@@ -422,16 +428,68 @@ const BusMap = forwardRef<BusMapHandle, BusMapProps>(({
         iconAnchor: [size / 2, size / 2],
       });
 
-      const marker = L.marker([vehicle.lat, vehicle.lon], { icon })
-        .on('click', () => {
-          if (route) {
-            onVehicleClick(vehicle, route);
-          }
+      // Last-known positions stay where they were reported
+      const track = createVehicleTrack(vehicle, animate && !vehiclesStale && route ? route.paths : [], fetchedAt);
+      // Keep drawing from where the marker already is so a new report doesn't make it jump
+      const previousMarker = animate ? previousTracks.get(vehicle.id)?.marker : undefined;
+      const start = previousMarker ? previousMarker.getLatLng() : null;
+      const position = start ? { lat: start.lat, lon: start.lng } : estimateVehiclePosition(track);
+
+      const marker = L.marker([position.lat, position.lon], { icon });
+      
+      if (vehiclesStale && vehiclesAsOf) {
+        const asOf = vehiclesAsOf.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+        marker.bindTooltip(`Bus ${vehicle.id} · last seen as of ${asOf}`, {
+          direction: 'top',
+          offset: [0, -size / 2],
         });
+      } else {
+        const nextStop = getNextStopForBus(vehicle, route);
+        marker.bindTooltip(nextStop ? `Bus ${vehicle.id} · next: ${nextStop}` : `Bus ${vehicle.id}`, {
+          direction: 'top',
+          offset: [0, -size / 2],
+        });
+      }
+      
+      marker.on('click', () => {
+        if (route) {
+          onVehicleClick(vehicle, route);
+        }
+      });
       
       marker.addTo(vehicleMarkersRef.current!);
+      nextTracks.set(vehicle.id, { marker, track });
     });
-  }, [vehicles, displayedRoutes, routes, selectedVehicle, onVehicleClick]);
+
+    vehicleTracksRef.current = nextTracks;
+  }, [vehicles, vehiclesAsOf, vehiclesStale, displayedRoutes, routes, selectedVehicle, onVehicleClick, isVisible]);
+
+  // Animate vehicle markers along their route between reports
+  useEffect(() => {
+    if (!isVisible || prefersReducedMotion()) return;
+
+    let frame = 0;
+    let lastFrameAt = performance.now();
+
+    const step = (frameAt: number) => {
+      const elapsedSecs = (frameAt - lastFrameAt) / 1000;
+      lastFrameAt = frameAt;
+      const now = Date.now();
+
+      vehicleTracksRef.current.forEach(({ marker, track }) => {
+        const current = marker.getLatLng();
+        const next = easePosition({ lat: current.lat, lon: current.lng }, estimateVehiclePosition(track, now), elapsedSecs);
+        if (next.lat !== current.lat || next.lon !== current.lng) {
+          marker.setLatLng([next.lat, next.lon]);
+        }
+      });
+
+      frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [isVisible]);
 
   // Fit map to selected route bounds
   useEffect(() => {
@@ -602,19 +660,34 @@ const BusMap = forwardRef<BusMapHandle, BusMapProps>(({
     }
 
     if (userLocation && directionsDestination) {
+      const walk = findWalkingRoute(walkingGraph, userLocation, directionsDestination);
+      // Routed on the bundled campus graph, so directions need no routing server
+      const campusRouter: L.Routing.IRouter = {
+        route(waypoints, callback, context) {
+          const coordinates = walk.path.map(p => L.latLng(p.lat, p.lon));
+          callback.call(context, undefined, [{
+            name: directionsDestination.name,
+            coordinates,
+            instructions: [],
+            summary: { totalDistance: walk.distance, totalTime: walk.durationSecs },
+            inputWaypoints: waypoints,
+            waypoints: waypoints.map(w => w.latLng),
+            waypointIndices: [0, coordinates.length - 1],
+          }]);
+        },
+      };
+
       routingControlRef.current = L.Routing.control({
         waypoints: [
           L.latLng(userLocation.lat, userLocation.lon),
           L.latLng(directionsDestination.lat, directionsDestination.lon),
         ],
-        router: L.Routing.osrmv1({
-          serviceUrl: 'https://router.project-osrm.org/route/v1',
-          profile: 'foot',
-        }),
+        router: campusRouter,
         lineOptions: {
+          // A straight-line estimate (outside the walking graph) is drawn dashed
           styles: [
-            { color: '#3b82f6', weight: 5, opacity: 0.8 },
-            { color: '#1e40af', weight: 2, opacity: 1 },
+            { color: '#3b82f6', weight: 5, opacity: 0.8, dashArray: walk.isApproximate ? '8 8' : undefined },
+            { color: '#1e40af', weight: 2, opacity: 1, dashArray: walk.isApproximate ? '8 8' : undefined },
           ],
           extendToWaypoints: true,
           missingRouteTolerance: 0,
@@ -638,7 +711,7 @@ const BusMap = forwardRef<BusMapHandle, BusMapProps>(({
         }
       });
     }
-  }, [userLocation, directionsDestination]);
+  }, [userLocation, directionsDestination, walkingGraph]);
 
   // Center on selected building
   useEffect(() => {
@@ -0,0 +1,106 @@
+import { useMemo } from 'react';
+import { Route, Stop } from '@/types/transit';
+import { getBuildingById } from '@/lib/campusBuildings';
+import { getUpcomingCommute } from '@/lib/commutes';
+import { findTripCandidates, getTripPredictionStops, planArriveBy } from '@/lib/tripPlanner';
+import { useCommutes } from '@/hooks/use-commutes';
+import { usePredictions } from '@/hooks/use-transit';
+import { useTravelTimeModel } from '@/hooks/use-travel-times';
+import { useWalkingGraph } from '@/hooks/use-walking-graph';
+import { useNow } from '@/hooks/use-now';
+import { Briefcase, Footprints, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface CommuteSuggestionProps {
+  routes: Route[];
+  onStopSelect: (stop: Stop, route: Route) => void;
+}
+
+// Departures listed under the headline
+const MAX_DEPARTURES = 3;
+
+const formatClockTime = (ms: number): string =>
+  new Date(ms).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+// Home screen card for a commute that's coming up: when to leave and the buses that make it
+const CommuteSuggestion = ({ routes, onStopSelect }: CommuteSuggestionProps) => {
+  const { commutes } = useCommutes();
+  const nowMs = useNow();
+  const { travelTimes } = useTravelTimeModel();
+  const { walkingGraph } = useWalkingGraph();
+
+  const upcoming = useMemo(() => getUpcomingCommute(commutes, nowMs), [commutes, nowMs]);
+  const from = upcoming ? getBuildingById(upcoming.commute.fromBuildingId) : undefined;
+  const to = upcoming ? getBuildingById(upcoming.commute.toBuildingId) : undefined;
+
+  const candidates = useMemo(() => {
+    return from && to ? findTripCandidates(from, to, routes, walkingGraph) : [];
+  }, [from, to, routes, walkingGraph]);
+
+  const predictionStops = useMemo(() => getTripPredictionStops(candidates), [candidates]);
+  const { predictions, isLoading: loadingPredictions } = usePredictions(predictionStops);
+
+  const plan = useMemo(() => {
+    return upcoming && from && to
+      ? planArriveBy(from, to, candidates, predictions, travelTimes, walkingGraph, upcoming.arriveBy, nowMs)
+      : null;
+  }, [upcoming, from, to, candidates, predictions, travelTimes, walkingGraph, nowMs]);
+
+  if (!upcoming || !from || !to || !plan) return null;
+
+  const departures = plan.departures.slice(0, MAX_DEPARTURES);
+  // Departures only count if they let you leave later than walking, so the last one is the latest
+  const leaveBy = plan.departures.length > 0 ? plan.departures[plan.departures.length - 1].leaveBy : plan.walk.leaveBy;
+  const minutesLeft = Math.floor((leaveBy - nowMs) / 60000);
+
+  return (
+    <div className="mt-3 p-3 rounded-xl bg-secondary">
+      <div className="flex items-center gap-3">
+        <div className="w-9 h-9 rounded-lg bg-primary/20 flex items-center justify-center flex-shrink-0">
+          <Briefcase className="w-4 h-4 text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-muted-foreground truncate">
+            {from.abbreviation} → {to.abbreviation} · Be there by {formatClockTime(upcoming.arriveBy)}
+          </p>
+          <p className={cn("font-medium text-sm", minutesLeft < 0 && "text-amber-400")}>
+            {minutesLeft < 0
+              ? `Running late · walking gets you there at ${formatClockTime(nowMs + plan.walk.walkSecs * 1000)}`
+              : `Leave by ${formatClockTime(leaveBy)}${minutesLeft <= 1 ? ' · now' : ` · in ${minutesLeft} min`}`}
+          </p>
+        </div>
+        {loadingPredictions && <RefreshCw className="w-3 h-3 text-muted-foreground animate-spin" />}
+      </div>
+
+      <div className="mt-2 space-y-1">
+        {departures.map(departure => {
+          const color = departure.route.color === '000000' ? '6B7280' : departure.route.color;
+          return (
+            <button
+              key={`${departure.route.tag}-${departure.vehicle}`}
+              onClick={() => onStopSelect(departure.boardStop, departure.route)}
+              className="w-full flex items-center gap-2 p-2 rounded-lg bg-background/60 hover:bg-background/80 text-left text-xs transition-colors"
+            >
+              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: `#${color}` }} />
+              <span className="flex-1 min-w-0 truncate">
+                <span className="font-medium">{departure.route.title.replace('Route ', '').split(' ')[0]}</span>
+                {' '}from {departure.boardStop.title} at {formatClockTime(departure.departureTime)}
+              </span>
+              <span className="text-muted-foreground whitespace-nowrap">
+                Leave {formatClockTime(departure.leaveBy)}
+              </span>
+            </button>
+          );
+        })}
+        <div className="flex items-center gap-2 px-2 text-xs text-muted-foreground">
+          <Footprints className="w-3 h-3 flex-shrink-0" />
+          {departures.length > 0
+            ? `Or walk ${Math.max(1, Math.round(plan.walk.walkSecs / 60))} min, leaving by ${formatClockTime(plan.walk.leaveBy)}`
+            : `Walk ${Math.max(1, Math.round(plan.walk.walkSecs / 60))} min${loadingPredictions ? '' : ' · no bus gets you there sooner'}`}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommuteSuggestion;
@@ -0,0 +1,142 @@
+import { useMemo, useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CAMPUS_BUILDINGS, getBuildingById } from '@/lib/campusBuildings';
+import { WEEKDAY_LABELS, formatTimeOfDay, formatWeekdays, parseTimeOfDay } from '@/lib/timeOfDay';
+import { useCommutes } from '@/hooks/use-commutes';
+import { Briefcase, Plus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// Monday first in the day picker
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+// Header button for adding and removing commutes
+const CommutesMenu = () => {
+  const { commutes, addCommute, removeCommute } = useCommutes();
+  const [days, setDays] = useState<number[]>([]);
+  const [time, setTime] = useState('');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+
+  const buildings = useMemo(() => {
+    return [...CAMPUS_BUILDINGS].sort((a, b) => a.name.localeCompare(b.name));
+  }, []);
+
+  const toggleDay = (day: number) => {
+    setDays(days.includes(day) ? days.filter(d => d !== day) : [...days, day]);
+  };
+
+  const handleAdd = () => {
+    const arriveByMinutes = parseTimeOfDay(time);
+    if (days.length === 0 || arriveByMinutes === null || !fromId || !toId) {
+      toast.error('Pick the days, a time and both buildings');
+      return;
+    }
+    if (fromId === toId) {
+      toast.error('Pick two different buildings');
+      return;
+    }
+    addCommute({ days, arriveByMinutes, fromBuildingId: fromId, toBuildingId: toId });
+    setDays([]);
+    setTime('');
+    setFromId('');
+    setToId('');
+    toast.success('Commute saved');
+  };
+
+  const selectClassName = "w-full px-2 py-1.5 rounded-lg bg-secondary border-0 text-xs";
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="p-2.5 rounded-xl bg-secondary text-muted-foreground hover:text-foreground hover:bg-secondary/80 transition-colors"
+          title="Commutes"
+        >
+          <Briefcase className="w-5 h-5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="z-[1100] w-80 p-2">
+        <p className="px-2 py-1.5 text-xs font-medium text-muted-foreground">Commutes</p>
+        {commutes.length === 0 && (
+          <p className="px-2 pb-2 text-xs text-muted-foreground">
+            Save a regular trip, like a class, to see when to leave and which buses make it.
+          </p>
+        )}
+        <div className="space-y-1">
+          {commutes.map(commute => {
+            const from = getBuildingById(commute.fromBuildingId);
+            const to = getBuildingById(commute.toBuildingId);
+            return (
+              <div key={commute.id} className="flex items-center gap-2 p-2 rounded-lg hover:bg-secondary transition-colors">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {from?.abbreviation ?? '?'} → {to?.abbreviation ?? '?'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatWeekdays(commute.days)} · by {formatTimeOfDay(commute.arriveByMinutes)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => removeCommute(commute.id)}
+                  className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-background/60 transition-colors"
+                  title="Remove commute"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* New commute */}
+        <div className="mt-2 p-2 space-y-2 border-t border-border">
+          <div className="flex gap-1">
+            {DAY_ORDER.map(day => (
+              <button
+                key={day}
+                onClick={() => toggleDay(day)}
+                className={cn(
+                  "flex-1 py-1 rounded-md text-[11px] font-medium transition-colors",
+                  days.includes(day) ? "bg-primary text-primary-foreground" : "bg-secondary text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {WEEKDAY_LABELS[day].slice(0, 2)}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground whitespace-nowrap">Be there by</span>
+            <input
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1.5 rounded-lg bg-secondary border-0 text-xs"
+            />
+          </div>
+          <select value={fromId} onChange={(e) => setFromId(e.target.value)} className={selectClassName}>
+            <option value="">From...</option>
+            {buildings.map(b => (
+              <option key={b.id} value={b.id}>{b.name} ({b.abbreviation})</option>
+            ))}
+          </select>
+          <select value={toId} onChange={(e) => setToId(e.target.value)} className={selectClassName}>
+            <option value="">To...</option>
+            {buildings.map(b => (
+              <option key={b.id} value={b.id}>{b.name} ({b.abbreviation})</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            className="w-full flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg bg-primary text-primary-foreground text-xs font-medium hover:bg-primary/90 transition-colors"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Add commute
+          </button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CommutesMenu;
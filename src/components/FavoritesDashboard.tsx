@@ -0,0 +1,239 @@
+import { useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Route, Stop, VehicleLocation } from '@/types/transit';
+import { usePredictions } from '@/hooks/use-transit';
+import { useFavorites } from '@/hooks/use-favorites';
+import { useNow } from '@/hooks/use-now';
+import { getStopLocationKey } from '@/lib/favorites';
+import { disableSync, enableSync, getSyncKey, isValidSyncKey } from '@/lib/preferenceSync';
+import { Star, Bus, RefreshCw, Copy } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface FavoritesDashboardProps {
+  routes: Route[];
+  vehicles: VehicleLocation[];
+  onStopSelect: (stop: Stop, route: Route) => void;
+  onSelectRoute: (routeTag: string) => void;
+}
+
+// Arrivals shown per route on each stop
+const ARRIVALS_PER_ROUTE = 2;
+
+const routeColor = (route: Route) => route.color === '000000' ? '6B7280' : route.color;
+
+// "My stops": next arrivals at every starred stop, plus starred routes
+const FavoritesDashboard = ({ routes, vehicles, onStopSelect, onSelectRoute }: FavoritesDashboardProps) => {
+  const queryClient = useQueryClient();
+  const { favorites, removeStop } = useFavorites();
+  const nowMs = useNow();
+  const [showSync, setShowSync] = useState(false);
+  const [syncKey, setSyncKey] = useState(getSyncKey);
+  const [joinCode, setJoinCode] = useState('');
+
+  // Each favorite resolved against the current route config
+  const favoriteStops = useMemo(() => {
+    return favorites.data.stops.map(favorite => {
+      const served = routes.flatMap(route => {
+        const stop = route.stops.find(s => getStopLocationKey(s) === favorite.key);
+        return stop ? [{ route, stop }] : [];
+      });
+      return { favorite, served };
+    });
+  }, [favorites, routes]);
+
+  const favoriteRoutes = useMemo(() => {
+    return routes.filter(r => favorites.data.routes.includes(r.tag));
+  }, [favorites, routes]);
+
+  const predictionStops = useMemo(() => {
+    return favoriteStops.flatMap(({ served }) =>
+      served.map(({ route, stop }) => ({ stopTag: stop.tag, routeTag: route.tag }))
+    );
+  }, [favoriteStops]);
+  const { predictions, isFetching } = usePredictions(predictionStops);
+
+  const getNextMinutes = (routeTag: string, stopTag: string): number[] => {
+    return predictions
+      .filter(p => p.routeTag === routeTag && p.stopTag === stopTag)
+      .flatMap(p => p.directions.flatMap(d => d.predictions))
+      .map(pred => Math.floor((pred.epochTime - nowMs) / 60000))
+      .filter(minutes => minutes >= 0)
+      .sort((a, b) => a - b)
+      .slice(0, ARRIVALS_PER_ROUTE);
+  };
+
+  // Every synced preference reloads, not just favorites
+  const resync = () => queryClient.invalidateQueries({ queryKey: ['preferences'] });
+
+  const handleEnableSync = () => {
+    setSyncKey(enableSync());
+    resync();
+  };
+
+  const handleJoinSync = () => {
+    if (!isValidSyncKey(joinCode)) {
+      toast.error('That sync code is not valid');
+      return;
+    }
+    setSyncKey(enableSync(joinCode));
+    setJoinCode('');
+    resync();
+    toast.success('Syncing with your other device');
+  };
+
+  const handleDisableSync = () => {
+    disableSync();
+    setSyncKey(null);
+  };
+
+  const handleCopySyncKey = async () => {
+    try {
+      await navigator.clipboard.writeText(syncKey);
+      toast.success('Sync code copied');
+    } catch {
+      toast.error('Could not copy the sync code');
+    }
+  };
+
+  const isEmpty = favoriteStops.length === 0 && favoriteRoutes.length === 0;
+
+  return (
+    <div className="flex-shrink-0 max-h-[45%] overflow-y-auto border-b border-border p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="flex items-center gap-1.5 text-sm font-semibold text-foreground">
+          <Star className="w-4 h-4 text-amber-400 fill-amber-400" />
+          My stops
+          {isFetching && <RefreshCw className="w-3 h-3 text-muted-foreground animate-spin" />}
+        </h2>
+        <button
+          onClick={() => setShowSync(!showSync)}
+          className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          {syncKey ? 'Synced' : 'Sync'}
+        </button>
+      </div>
+
+      {isEmpty && (
+        <p className="text-xs text-muted-foreground">
+          Star stops and routes to see their next arrivals here.
+        </p>
+      )}
+
+      {/* Favorite routes */}
+      {favoriteRoutes.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {favoriteRoutes.map(route => {
+            const color = routeColor(route);
+            const busCount = vehicles.filter(v => v.routeTag === route.tag).length;
+            return (
+              <button
+                key={route.tag}
+                onClick={() => onSelectRoute(route.tag)}
+                className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium hover:opacity-80 transition-opacity"
+                style={{ backgroundColor: `#${color}20`, color: `#${color}` }}
+              >
+                <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: `#${color}` }} />
+                {route.title.replace('Route ', '')}
+                <span className={cn("flex items-center gap-0.5", busCount === 0 && "opacity-50")}>
+                  <Bus className="w-3 h-3" />
+                  {busCount}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Favorite stops */}
+      <div className="space-y-2">
+        {favoriteStops.map(({ favorite, served }) => (
+          <div key={favorite.key} className="flex items-start gap-2 p-3 rounded-xl bg-secondary">
+            <button
+              onClick={() => served.length > 0 && onStopSelect(served[0].stop, served[0].route)}
+              disabled={served.length === 0}
+              className="flex-1 min-w-0 text-left"
+            >
+              <p className="font-medium text-sm truncate">{favorite.title}</p>
+              {served.length === 0 ? (
+                <p className="text-xs text-muted-foreground mt-1">No longer served by any route</p>
+              ) : (
+                <div className="mt-1 space-y-0.5">
+                  {served.map(({ route, stop }) => {
+                    const color = routeColor(route);
+                    const minutes = getNextMinutes(route.tag, stop.tag);
+                    return (
+                      <div key={route.tag} className="flex items-center gap-1.5 text-xs">
+                        <span className="w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: `#${color}` }} />
+                        <span className="text-muted-foreground">{route.title.replace('Route ', '').split(' ')[0]}</span>
+                        <span className={cn("ml-auto font-medium", minutes.length === 0 && "text-muted-foreground font-normal")}>
+                          {minutes.length === 0
+                            ? 'No arrivals'
+                            : minutes.map(m => m === 0 ? 'Now' : `${m}`).join(', ') + (minutes[minutes.length - 1] === 0 ? '' : ' min')}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </button>
+            <button
+              onClick={() => removeStop(favorite.key)}
+              className="p-1 -m-1 text-amber-400 hover:text-amber-300 transition-colors"
+              title="Remove from my stops"
+            >
+              <Star className="w-4 h-4 fill-current" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Sync across devices */}
+      {showSync && (
+        <div className="mt-3 p-3 rounded-xl bg-secondary text-xs space-y-2">
+          {syncKey ? (
+            <>
+              <p className="text-muted-foreground">Enter this code on your other devices to share favorites, commutes and classes:</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 truncate px-2 py-1 rounded bg-background/60 text-foreground">{syncKey}</code>
+                <button onClick={handleCopySyncKey} className="p-1.5 rounded-lg hover:bg-background/60 transition-colors" title="Copy">
+                  <Copy className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <button onClick={handleDisableSync} className="text-muted-foreground hover:text-foreground transition-colors">
+                Turn off sync on this device
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={handleEnableSync}
+                className="w-full px-3 py-1.5 rounded-lg bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition-colors"
+              >
+                Turn on sync
+              </button>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value)}
+                  placeholder="Or enter a code from another device"
+                  className="flex-1 min-w-0 px-2 py-1.5 rounded-lg bg-background/60 border-0 text-xs placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <button
+                  onClick={handleJoinSync}
+                  disabled={!joinCode.trim()}
+                  className="px-2.5 py-1.5 rounded-lg bg-background/60 font-medium hover:text-foreground disabled:opacity-50 transition-colors"
+                >
+                  Join
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FavoritesDashboard;
@@ -1,6 +1,7 @@
 import { Route, VehicleLocation } from '@/types/transit';
 import { Info } from 'lucide-react';
 import { useState } from 'react';
+import { describeRouteService, getRouteServiceStatus } from '@/lib/serviceHours';
 
 interface RouteLegendProps {
   routes: Route[];
@@ -40,6 +41,7 @@ const RouteLegend = ({ routes, vehicles }: RouteLegendProps) => {
               const color = route.color === '000000' ? '6B7280' : route.color;
               const busCount = vehicleCountByRoute[route.tag] || 0;
               const patternIndex = index % 3;
+              const status = getRouteServiceStatus(route.tag);
               
               return (
                 <div key={route.tag} className="flex items-center gap-2">
@@ -47,9 +49,12 @@ const RouteLegend = ({ routes, vehicles }: RouteLegendProps) => {
                     className={`w-8 h-0 border-t-[3px] ${ROUTE_PATTERNS[patternIndex].style}`}
                     style={{ borderColor: `#${color}` }}
                   />
-                  <span className="text-xs text-foreground flex-1 truncate">
-                    {route.title}
-                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-foreground truncate">{route.title}</p>
+                    <p className={`text-[10px] ${status.inService ? 'text-muted-foreground' : 'text-amber-400/80'}`}>
+                      {describeRouteService(status)}
+                    </p>
+                  </div>
                   <span className={`text-xs px-1.5 py-0.5 rounded ${busCount > 0 ? 'bg-primary/20 text-primary' : 'bg-muted text-muted-foreground'}`}>
                     {busCount} bus{busCount !== 1 ? 'es' : ''}
                   </span>
@@ -1,6 +1,7 @@
 import { Route, VehicleLocation } from '@/types/transit';
 import { cn } from '@/lib/utils';
-import { Bus } from 'lucide-react';
+import { Bus, Star } from 'lucide-react';
+import { useFavorites } from '@/hooks/use-favorites';
 
 interface RouteSelectorProps {
   routes: Route[];
@@ -10,6 +11,8 @@ interface RouteSelectorProps {
 }
 
 const RouteSelector = ({ routes, vehicles, selectedRoute, onSelectRoute }: RouteSelectorProps) => {
+  const { isFavoriteRoute, toggleRoute } = useFavorites();
+
   // Count vehicles per route
   const vehicleCountByRoute = routes.reduce((acc, route) => {
     acc[route.tag] = vehicles.filter(v => v.routeTag === route.tag).length;
@@ -18,6 +21,12 @@ const RouteSelector = ({ routes, vehicles, selectedRoute, onSelectRoute }: Route
 
   const totalActive = vehicles.length;
 
+  // Starred routes first, otherwise in feed order
+  const sortedRoutes = [
+    ...routes.filter(r => isFavoriteRoute(r.tag)),
+    ...routes.filter(r => !isFavoriteRoute(r.tag)),
+  ];
+
   return (
     <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
       <button
@@ -39,10 +48,11 @@ const RouteSelector = ({ routes, vehicles, selectedRoute, onSelectRoute }: Route
         </span>
       </button>
       
-      {routes.map(route => {
+      {sortedRoutes.map(route => {
         const color = route.color === '000000' ? '6B7280' : route.color;
         const isSelected = selectedRoute === route.tag;
         const busCount = vehicleCountByRoute[route.tag] || 0;
+        const isFavorite = isFavoriteRoute(route.tag);
         
         return (
           <button
@@ -61,6 +71,7 @@ const RouteSelector = ({ routes, vehicles, selectedRoute, onSelectRoute }: Route
               style={{ backgroundColor: `#${color}` }}
             />
             <span>{route.title.replace('Route ', '')}</span>
+            {isFavorite && <Star className={cn("w-3 h-3 fill-current", !isSelected && "text-amber-400")} />}
             <span className={cn(
               "flex items-center gap-1 text-xs px-1.5 py-0.5 rounded-full",
               isSelected ? "bg-white/20" : "bg-muted",
@@ -72,6 +83,19 @@ const RouteSelector = ({ routes, vehicles, selectedRoute, onSelectRoute }: Route
           </button>
         );
       })}
+
+      {selectedRoute && (
+        <button
+          onClick={() => toggleRoute(selectedRoute)}
+          className={cn(
+            "px-3 py-2 rounded-lg bg-secondary transition-colors flex-shrink-0",
+            isFavoriteRoute(selectedRoute) ? "text-amber-400 hover:text-amber-300" : "text-muted-foreground hover:text-foreground"
+          )}
+          title={isFavoriteRoute(selectedRoute) ? 'Remove from my routes' : 'Add to my routes'}
+        >
+          <Star className={cn("w-4 h-4", isFavoriteRoute(selectedRoute) && "fill-current")} />
+        </button>
+      )}
     </div>
   );
 };
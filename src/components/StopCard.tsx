@@ -1,9 +1,21 @@
 import { useEffect, useState, useMemo, useRef } from 'react';
-import { Stop, Route, StopPredictions, Prediction, VehicleLocation } from '@/types/transit';
-import { fetchPredictions, fetchVehicleLocations } from '@/lib/api';
-import { Clock, MapPin, X, RefreshCw, Bus, Navigation } from 'lucide-react';
+import { Stop, Route, Prediction } from '@/types/transit';
+import { useVehicles, usePredictions } from '@/hooks/use-transit';
+import { Clock, MapPin, X, RefreshCw, Bus, Navigation, AlertTriangle, Bell, BellRing, Star } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { getCurrentBreakPeriod, formatBreakDates } from '@/lib/academicCalendar';
+import { describeNextService, formatNextServiceTime, getNextServiceStart, isRouteInService } from '@/lib/serviceHours';
+import { describeTransitError } from '@/lib/errors';
+import { STALE_AFTER_MS, isDataStale } from '@/lib/transitQueries';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { useNow } from '@/hooks/use-now';
+import { useTravelTimeModel } from '@/hooks/use-travel-times';
+import { matchVehicleToRoute } from '@/lib/mapMatching';
+import { estimateStopArrivals } from '@/lib/travelTimes';
+import { ALERT_LEAD_MINUTES } from '@/lib/arrivalAlerts';
+import { useArrivalAlerts } from '@/hooks/use-arrival-alerts';
+import { useFavorites } from '@/hooks/use-favorites';
+import { toast } from 'sonner';
 
 interface StopCardProps {
   stop: Stop;
@@ -18,6 +30,8 @@ interface FlatPrediction {
   routeTitle: string;
   routeColor: string;
   directionTitle: string;
+  /** Estimated from the bus's position and past travel times; the feed had no prediction */
+  isEstimate?: boolean;
 }
 
 // Calculate distance between two lat/lon points in meters
@@ -33,30 +47,6 @@ const getDistance = (lat1: number, lon1: number, lat2: number, lon2: number): nu
   return R * c;
 };
 
-// Route operating hours (in 24-hour format, Central Time)
-const ROUTE_SCHEDULES: Record<string, { startHour: number; startMin: number; endHour: number; endMin: number }> = {
-  'red': { startHour: 7, startMin: 30, endHour: 17, endMin: 30 },   // Campus Circulator: 7:30 AM - 5:30 PM
-  'white': { startHour: 7, startMin: 15, endHour: 17, endMin: 24 }, // South Campus: 7:15 AM - 5:24 PM
-  'blue': { startHour: 7, startMin: 20, endHour: 17, endMin: 30 },  // Kentucky Street: 7:20 AM - 5:30 PM
-};
-
-const isRouteInService = (routeTag: string): boolean => {
-  const now = new Date();
-  const day = now.getDay(); // 0 = Sunday, 6 = Saturday
-  
-  // No service on weekends
-  if (day === 0 || day === 6) return false;
-  
-  const schedule = ROUTE_SCHEDULES[routeTag];
-  if (!schedule) return true; // Default to showing if unknown route
-  
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
-  const startMinutes = schedule.startHour * 60 + schedule.startMin;
-  const endMinutes = schedule.endHour * 60 + schedule.endMin;
-  
-  return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
-};
-
 // Height constants based on content
 const HEADER_HEIGHT = 160; // approx header height in pixels
 const PREDICTION_ITEM_HEIGHT = 64; // approx height per prediction item (reduced)
@@ -64,13 +54,15 @@ const DRAG_HANDLE_HEIGHT = 36; // drag handle height
 const MAX_HEIGHT = 75; // percentage
 const NO_ARRIVALS_HEIGHT = 100; // height for no arrivals message
 const OUT_OF_SERVICE_HEIGHT = 100; // height for out of service warning
+const ALERT_ROW_HEIGHT = 52; // alert form or active alert chips
 
 // Calculate dynamic minimum height based on number of predictions (show up to 3)
-const calculateMinHeight = (predCount: number, hasRouteFilters: boolean, hasOutOfServiceRoutes: boolean): number => {
+const calculateMinHeight = (predCount: number, hasRouteFilters: boolean, hasOutOfServiceRoutes: boolean, hasAlertRow: boolean): number => {
   const windowHeight = window.innerHeight;
   const itemsToShow = Math.min(predCount, 3);
   const filterHeight = hasRouteFilters ? 40 : 0;
-  const baseHeader = HEADER_HEIGHT + filterHeight;
+  const alertHeight = hasAlertRow ? ALERT_ROW_HEIGHT : 0;
+  const baseHeader = HEADER_HEIGHT + filterHeight + alertHeight;
   
   if (predCount === 0) {
     const outOfServiceHeight = hasOutOfServiceRoutes ? OUT_OF_SERVICE_HEIGHT : 0;
@@ -82,17 +74,15 @@ const calculateMinHeight = (predCount: number, hasRouteFilters: boolean, hasOutO
 };
 
 const StopCard = ({ stop, route, allRoutes, onClose }: StopCardProps) => {
-  const [predictions, setPredictions] = useState<StopPredictions[]>([]);
-  const [vehicles, setVehicles] = useState<VehicleLocation[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const [selectedRouteFilter, setSelectedRouteFilter] = useState<string | null>(null);
-  const [routesAtStop, setRoutesAtStop] = useState<Route[]>([]);
   const [panelHeight, setPanelHeight] = useState<number | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
   const [isOpening, setIsOpening] = useState(true);
   const [dragTranslateY, setDragTranslateY] = useState(0);
+  const [showAlertForm, setShowAlertForm] = useState(false);
+  const [alertRouteTag, setAlertRouteTag] = useState<string | null>(null);
+  const [alertLeadMinutes, setAlertLeadMinutes] = useState(5);
   
   const panelRef = useRef<HTMLDivElement>(null);
   const dragStartY = useRef(0);
@@ -104,50 +94,48 @@ const StopCard = ({ stop, route, allRoutes, onClose }: StopCardProps) => {
     return () => clearTimeout(timer);
   }, []);
 
-  const fetchAllData = async () => {
-    setLoading(true);
-    try {
-      const stopLocationKey = `${stop.lat.toFixed(4)},${stop.lon.toFixed(4)}`;
-      const routesWithStop = allRoutes.filter(r => 
-        r.stops.some(s => `${s.lat.toFixed(4)},${s.lon.toFixed(4)}` === stopLocationKey)
-      );
-      setRoutesAtStop(routesWithStop);
-      
-      const allPreds: StopPredictions[] = [];
-      for (const r of routesWithStop) {
-        const routeStop = r.stops.find(s => `${s.lat.toFixed(4)},${s.lon.toFixed(4)}` === stopLocationKey);
-        if (routeStop) {
-          const preds = await fetchPredictions(routeStop.tag, r.tag);
-          allPreds.push(...preds);
-        }
-      }
-      
-      const vehicleData = await fetchVehicleLocations();
-      setVehicles(vehicleData);
-      
-      setPredictions(allPreds);
-      setLastUpdate(new Date());
-    } catch (error) {
-      console.error('Error fetching predictions:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Routes serving this stop, matched by location since each route has its own stop tag
+  const stopLocationKey = `${stop.lat.toFixed(4)},${stop.lon.toFixed(4)}`;
+  const routesAtStop = useMemo(() => {
+    return allRoutes.filter(r => 
+      r.stops.some(s => `${s.lat.toFixed(4)},${s.lon.toFixed(4)}` === stopLocationKey)
+    );
+  }, [allRoutes, stopLocationKey]);
 
-  useEffect(() => {
-    fetchAllData();
-    const interval = setInterval(fetchAllData, 30000);
-    return () => clearInterval(interval);
-  }, [stop.tag]);
+  const predictionStops = useMemo(() => {
+    return routesAtStop.flatMap(r => {
+      const routeStop = r.stops.find(s => `${s.lat.toFixed(4)},${s.lon.toFixed(4)}` === stopLocationKey);
+      return routeStop ? [{ stopTag: routeStop.tag, routeTag: r.tag }] : [];
+    });
+  }, [routesAtStop, stopLocationKey]);
+
+  // Vehicles are polled by the map view; just read the shared store here
+  const { vehicles } = useVehicles({ refreshInterval: false });
+  const {
+    predictions,
+    isFetching: loading,
+    error: predictionsError,
+    lastUpdated,
+    refetch: refetchPredictions,
+  } = usePredictions(predictionStops);
+  const lastUpdate = lastUpdated ?? new Date();
+  const isOnline = useOnlineStatus();
+  const nowMs = useNow();
+  const isStale = !isOnline || isDataStale(lastUpdated, STALE_AFTER_MS.predictions, nowMs);
+  const { travelTimes } = useTravelTimeModel();
+  const { alerts, addAlert, cancelAlert } = useArrivalAlerts();
+  const { isFavoriteStop, toggleStop } = useFavorites();
+  const isFavorite = isFavoriteStop(stop);
+  const stopAlerts = alerts.filter(a => predictionStops.some(s => s.stopTag === a.stopTag && s.routeTag === a.routeTag));
 
   // Check which routes at this stop are currently in service
   const routesInService = useMemo(() => {
-    return routesAtStop.filter(r => isRouteInService(r.tag));
-  }, [routesAtStop]);
+    return routesAtStop.filter(r => isRouteInService(r.tag, new Date(nowMs)));
+  }, [routesAtStop, nowMs]);
 
   const routesOutOfService = useMemo(() => {
-    return routesAtStop.filter(r => !isRouteInService(r.tag));
-  }, [routesAtStop]);
+    return routesAtStop.filter(r => !isRouteInService(r.tag, new Date(nowMs)));
+  }, [routesAtStop, nowMs]);
 
   // Flatten and sort all predictions by time (only from routes in service)
   const sortedPredictions = useMemo(() => {
@@ -155,7 +143,7 @@ const StopCard = ({ stop, route, allRoutes, onClose }: StopCardProps) => {
     
     predictions.forEach(pred => {
       // Skip predictions from routes not in service
-      if (!isRouteInService(pred.routeTag)) return;
+      if (!isRouteInService(pred.routeTag, new Date(nowMs))) return;
       
       if (selectedRouteFilter && pred.routeTag !== selectedRouteFilter) return;
       
@@ -164,8 +152,11 @@ const StopCard = ({ stop, route, allRoutes, onClose }: StopCardProps) => {
       
       pred.directions.forEach(dir => {
         dir.predictions.forEach(p => {
+          // Cached predictions: count down from the predicted arrival instead of the stale minutes
+          const minutes = isStale ? Math.floor((p.epochTime - nowMs) / 60000) : p.minutes;
+          if (minutes < 0) return;
           flat.push({
-            prediction: p,
+            prediction: isStale ? { ...p, minutes, seconds: Math.round((p.epochTime - nowMs) / 1000) } : p,
             routeTag: pred.routeTag,
             routeTitle: pred.routeTitle,
             routeColor: color,
@@ -175,13 +166,55 @@ const StopCard = ({ stop, route, allRoutes, onClose }: StopCardProps) => {
       });
     });
     
+    // Routes the feed has nothing for: estimate from where their buses are.
+    // Skipped offline, where bus positions are as old as everything else.
+    if (isOnline) {
+      routesAtStop.forEach(r => {
+        if (!isRouteInService(r.tag, new Date(nowMs))) return;
+        if (selectedRouteFilter && r.tag !== selectedRouteFilter) return;
+        if (predictions.some(p => p.routeTag === r.tag && p.directions.length > 0)) return;
+        
+        const routeStop = r.stops.find(s => `${s.lat.toFixed(4)},${s.lon.toFixed(4)}` === stopLocationKey);
+        if (!routeStop) return;
+        const color = r.color === '000000' ? '6B7280' : r.color;
+        
+        vehicles.filter(v => v.routeTag === r.tag).forEach(vehicle => {
+          const progress = matchVehicleToRoute(vehicle, r);
+          if (!progress) return;
+          const arrival = estimateStopArrivals(travelTimes, progress, new Date(nowMs))
+            .find(a => a.stop.tag === routeStop.tag);
+          if (!arrival) return;
+          
+          const seconds = Math.round(arrival.secs);
+          flat.push({
+            prediction: {
+              epochTime: nowMs + seconds * 1000,
+              seconds,
+              minutes: Math.floor(seconds / 60),
+              isDeparture: false,
+              affectedByLayover: false,
+              dirTag: vehicle.dirTag,
+              vehicle: vehicle.id,
+              block: '',
+            },
+            routeTag: r.tag,
+            routeTitle: r.title,
+            routeColor: color,
+            directionTitle: r.directions.find(d => d.tag === vehicle.dirTag)?.title || '',
+            isEstimate: true,
+          });
+        });
+      });
+    }
+    
     return flat.sort((a, b) => a.prediction.minutes - b.prediction.minutes);
-  }, [predictions, allRoutes, selectedRouteFilter]);
+  }, [predictions, allRoutes, selectedRouteFilter, isStale, nowMs, isOnline, routesAtStop, stopLocationKey, vehicles, travelTimes]);
 
   // Calculate minimum height based on predictions and whether filters are shown
   const hasRouteFilters = routesInService.length > 1;
   const hasOutOfServiceRoutes = routesOutOfService.length > 0;
-  const minHeight = calculateMinHeight(sortedPredictions.length, hasRouteFilters, hasOutOfServiceRoutes);
+  const hasAlertRow = showAlertForm || stopAlerts.length > 0;
+  const minHeight = calculateMinHeight(sortedPredictions.length, hasRouteFilters, hasOutOfServiceRoutes, hasAlertRow);
 
   // Update panel height when predictions change
   useEffect(() => {
@@ -190,6 +223,27 @@ const StopCard = ({ stop, route, allRoutes, onClose }: StopCardProps) => {
     }
   }, [sortedPredictions.length, hasRouteFilters, isDragging, minHeight]);
 
+  const handleSetAlert = async () => {
+    const alertRoute = routesAtStop.find(r => r.tag === alertRouteTag) || routesAtStop[0];
+    const routeStop = alertRoute && predictionStops.find(s => s.routeTag === alertRoute.tag);
+    if (!routeStop) return;
+
+    const canNotify = await addAlert({
+      stopTag: routeStop.stopTag,
+      stopId: stop.stopId,
+      stopTitle: stop.shortTitle || stop.title,
+      routeTag: alertRoute.tag,
+      routeTitle: alertRoute.title,
+      leadMinutes: alertLeadMinutes,
+    });
+    setShowAlertForm(false);
+    if (canNotify) {
+      toast.success(`We'll notify you when the next ${alertRoute.title} bus is ${alertLeadMinutes} min away`);
+    } else {
+      toast.info('Alert set. Notifications are blocked, so it will only show while the app is open.');
+    }
+  };
+
   // Drag handlers - tracks Y position for swipe-to-dismiss with smooth animation
   const handleDragStart = (e: React.MouseEvent | React.TouchEvent) => {
     setIsDragging(true);
@@ -371,12 +425,24 @@ const StopCard = ({ stop, route, allRoutes, onClose }: StopCardProps) => {
                 {stop.shortTitle || stop.title}
               </h3>
             </div>
-            <button
-              onClick={handleClose}
-              className="p-2 -m-2 text-muted-foreground hover:text-foreground transition-colors"
-            >
-              <X className="w-5 h-5" />
-            </button>
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => toggleStop(stop)}
+                className={cn(
+                  "p-2 -m-2 transition-colors",
+                  isFavorite ? "text-amber-400 hover:text-amber-300" : "text-muted-foreground hover:text-foreground"
+                )}
+                title={isFavorite ? 'Remove from my stops' : 'Add to my stops'}
+              >
+                <Star className={cn("w-5 h-5", isFavorite && "fill-current")} />
+              </button>
+              <button
+                onClick={handleClose}
+                className="p-2 -m-2 text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
           </div>
           
           <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
@@ -385,14 +451,85 @@ const StopCard = ({ stop, route, allRoutes, onClose }: StopCardProps) => {
               <span>{stop.lat.toFixed(5)}, {stop.lon.toFixed(5)}</span>
             </div>
             <button
-              onClick={fetchAllData}
+              onClick={() => refetchPredictions()}
               className="flex items-center gap-1 hover:text-foreground transition-colors"
             >
               <RefreshCw className={cn("w-3 h-3", loading && "animate-spin")} />
-              <span>Updated {lastUpdate.toLocaleTimeString()}</span>
+              {isStale ? (
+                <span className="text-amber-400">Last known · as of {lastUpdate.toLocaleTimeString()}</span>
+              ) : (
+                <span>Updated {lastUpdate.toLocaleTimeString()}</span>
+              )}
             </button>
+            {routesAtStop.length > 0 && (
+              <button
+                onClick={() => setShowAlertForm(!showAlertForm)}
+                className={cn(
+                  "ml-auto flex items-center gap-1 hover:text-foreground transition-colors",
+                  stopAlerts.length > 0 && "text-primary"
+                )}
+              >
+                {stopAlerts.length > 0 ? <BellRing className="w-3 h-3" /> : <Bell className="w-3 h-3" />}
+                <span>Notify me</span>
+              </button>
+            )}
           </div>
           
+          {/* Arrival alert form */}
+          {showAlertForm && (
+            <div className="flex flex-wrap items-center gap-1.5 mt-3 p-2 rounded-lg bg-secondary text-xs text-muted-foreground">
+              <span>When the next</span>
+              <select
+                value={alertRouteTag ?? routesAtStop[0]?.tag}
+                onChange={(e) => setAlertRouteTag(e.target.value)}
+                className="px-2 py-1 rounded-md bg-background/60 border-0 text-xs text-foreground"
+              >
+                {routesAtStop.map(r => (
+                  <option key={r.tag} value={r.tag}>{r.title.replace('Route ', '')}</option>
+                ))}
+              </select>
+              <span>bus is</span>
+              <select
+                value={alertLeadMinutes}
+                onChange={(e) => setAlertLeadMinutes(Number(e.target.value))}
+                className="px-2 py-1 rounded-md bg-background/60 border-0 text-xs text-foreground"
+              >
+                {ALERT_LEAD_MINUTES.map(m => (
+                  <option key={m} value={m}>{m} min</option>
+                ))}
+              </select>
+              <span>away</span>
+              <button
+                onClick={handleSetAlert}
+                className="ml-auto px-2.5 py-1 rounded-md bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition-colors"
+              >
+                Set alert
+              </button>
+            </div>
+          )}
+          
+          {/* Active alerts for this stop */}
+          {!showAlertForm && stopAlerts.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {stopAlerts.map(alert => (
+                <span
+                  key={alert.id}
+                  className="flex items-center gap-1.5 pl-2.5 pr-1 py-1 rounded-lg bg-primary/15 text-primary text-xs font-medium"
+                >
+                  <BellRing className="w-3 h-3" />
+                  {alert.routeTitle.replace('Route ', '')} · {alert.leadMinutes} min
+                  <button
+                    onClick={() => cancelAlert(alert.id)}
+                    className="p-0.5 rounded hover:bg-primary/20 transition-colors"
+                    title="Cancel alert"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          
           {/* Route filter - only show routes in service */}
           {routesInService.length > 1 && (
             <div className="flex flex-wrap gap-1.5 mt-3">
@@ -444,11 +581,27 @@ const StopCard = ({ stop, route, allRoutes, onClose }: StopCardProps) => {
                 <span>Loading arrivals...</span>
               </div>
             </div>
+          ) : predictionsError && sortedPredictions.length === 0 ? (
+            <div className="py-4 text-center">
+              <AlertTriangle className="w-6 h-6 text-red-400 mx-auto mb-1.5" />
+              <p className="text-sm text-foreground">Arrival times unavailable</p>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {describeTransitError(predictionsError)}
+              </p>
+              <button
+                onClick={() => refetchPredictions()}
+                className="mt-3 px-3 py-1.5 rounded-lg bg-secondary text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Try again
+              </button>
+            </div>
           ) : sortedPredictions.length === 0 ? (
             <div className="py-4">
               {/* Show routes that are out of service - at top */}
               {routesOutOfService.length > 0 && (() => {
-                const breakPeriod = getCurrentBreakPeriod();
+                const now = new Date(nowMs);
+                const breakPeriod = getCurrentBreakPeriod(now);
+                const nextService = breakPeriod ? getNextServiceStart(null, now) : null;
                 return (
                   <div className="mb-3 p-3 rounded-lg bg-amber-500/10 border border-amber-500/20 text-left">
                     <p className="text-xs text-amber-200/90 mb-1.5 font-medium">
@@ -457,21 +610,23 @@ const StopCard = ({ stop, route, allRoutes, onClose }: StopCardProps) => {
                         : 'Routes not currently in service:'
                       }
                     </p>
+                    {nextService && (
+                      <p className="text-xs text-amber-400/80 mb-1">
+                        Service resumes {formatNextServiceTime(nextService, now)}
+                      </p>
+                    )}
                     {!breakPeriod && routesOutOfService.map(r => {
-                      const schedule = ROUTE_SCHEDULES[r.tag];
+                      const next = getNextServiceStart(r.tag, now);
                       const color = r.color === '000000' ? '6B7280' : r.color;
                       return (
                         <div key={r.tag} className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
                           <span 
-                            className="w-2 h-2 rounded-full" 
+                            className="w-2 h-2 rounded-full flex-shrink-0" 
                             style={{ backgroundColor: `#${color}` }} 
                           />
-                          <span>{r.title}</span>
-                          {schedule && (
-                            <span className="text-amber-400/80">
-                              ({schedule.startHour > 12 ? schedule.startHour - 12 : schedule.startHour}:{schedule.startMin.toString().padStart(2, '0')} {schedule.startHour >= 12 ? 'PM' : 'AM'} - {schedule.endHour > 12 ? schedule.endHour - 12 : schedule.endHour}:{schedule.endMin.toString().padStart(2, '0')} PM)
-                            </span>
-                          )}
+                          <span>
+                            {next ? describeNextService(r.title, next, now) : `${r.title} isn't scheduled to run`}
+                          </span>
                         </div>
                       );
                     })}
@@ -501,7 +656,8 @@ const StopCard = ({ stop, route, allRoutes, onClose }: StopCardProps) => {
                     key={`${item.routeTag}-${item.prediction.vehicle}-${i}`}
                     className={cn(
                       "p-3 rounded-xl transition-all",
-                      getTimeBg(item.prediction.minutes, isFirst)
+                      getTimeBg(item.prediction.minutes, isFirst),
+                      isStale && "opacity-60"
                     )}
                   >
                     <div className="flex items-center justify-between gap-2">
@@ -547,7 +703,7 @@ const StopCard = ({ stop, route, allRoutes, onClose }: StopCardProps) => {
                               {getArrivalTimeRange(item.prediction.minutes).clock}
                             </div>
                             <div className="text-xs opacity-70">
-                              {getArrivalTimeRange(item.prediction.minutes).relative}
+                              {item.isEstimate && 'Est. · '}{getArrivalTimeRange(item.prediction.minutes).relative}
                             </div>
                           </>
                         )}
@@ -1,7 +1,8 @@
 import { Route, Stop } from '@/types/transit';
-import { MapPin, Search } from 'lucide-react';
+import { MapPin, Search, Star } from 'lucide-react';
 import { useMemo } from 'react';
 import { cn } from '@/lib/utils';
+import { useFavorites } from '@/hooks/use-favorites';
 
 interface StopListProps {
   routes: Route[];
@@ -12,6 +13,7 @@ interface StopListProps {
 }
 
 const StopList = ({ routes, selectedRoute, onStopSelect, search, onSearchChange }: StopListProps) => {
+  const { isFavoriteStop, toggleStop } = useFavorites();
 
   const filteredStops = useMemo(() => {
     const displayedRoutes = selectedRoute 
@@ -69,50 +71,61 @@ const StopList = ({ routes, selectedRoute, onStopSelect, search, onSearchChange
         ) : (
           <div className="divide-y divide-border">
             {filteredStops.map(({ stop, routes: stopRoutes }) => (
-              <button
-                key={`${stop.lat.toFixed(4)},${stop.lon.toFixed(4)}`}
-                onClick={() => onStopSelect(stop, stopRoutes[0])}
-                className="w-full p-4 text-left hover:bg-secondary/50 transition-colors"
-              >
-                <div className="flex items-start gap-3">
-                  <div className="mt-1">
-                    <div className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center">
-                      <MapPin className="w-4 h-4 text-muted-foreground" />
+              <div key={`${stop.lat.toFixed(4)},${stop.lon.toFixed(4)}`} className="relative">
+                <button
+                  onClick={() => onStopSelect(stop, stopRoutes[0])}
+                  className="w-full p-4 pr-12 text-left hover:bg-secondary/50 transition-colors"
+                >
+                  <div className="flex items-start gap-3">
+                    <div className="mt-1">
+                      <div className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center">
+                        <MapPin className="w-4 h-4 text-muted-foreground" />
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <h4 className="font-medium text-foreground truncate">
-                      {stop.shortTitle || stop.title}
-                    </h4>
-                    {stop.stopId && (
-                      <p className="text-xs text-muted-foreground mt-0.5">
-                        Stop #{stop.stopId}
-                      </p>
-                    )}
-                    <div className="flex flex-wrap gap-1.5 mt-2">
-                      {stopRoutes.map(route => {
-                        const color = route.color === '000000' ? '6B7280' : route.color;
-                        return (
-                          <span
-                            key={route.tag}
-                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium"
-                            style={{ 
-                              backgroundColor: `#${color}20`,
-                              color: `#${color}`,
-                            }}
-                          >
-                            <span 
-                              className="w-1.5 h-1.5 rounded-full"
-                              style={{ backgroundColor: `#${color}` }}
-                            />
-                            {route.title.replace('Route ', '').split(' ')[0]}
-                          </span>
-                        );
-                      })}
+                    <div className="flex-1 min-w-0">
+                      <h4 className="font-medium text-foreground truncate">
+                        {stop.shortTitle || stop.title}
+                      </h4>
+                      {stop.stopId && (
+                        <p className="text-xs text-muted-foreground mt-0.5">
+                          Stop #{stop.stopId}
+                        </p>
+                      )}
+                      <div className="flex flex-wrap gap-1.5 mt-2">
+                        {stopRoutes.map(route => {
+                          const color = route.color === '000000' ? '6B7280' : route.color;
+                          return (
+                            <span
+                              key={route.tag}
+                              className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium"
+                              style={{ 
+                                backgroundColor: `#${color}20`,
+                                color: `#${color}`,
+                              }}
+                            >
+                              <span 
+                                className="w-1.5 h-1.5 rounded-full"
+                                style={{ backgroundColor: `#${color}` }}
+                              />
+                              {route.title.replace('Route ', '').split(' ')[0]}
+                            </span>
+                          );
+                        })}
+                      </div>
                     </div>
                   </div>
-                </div>
-              </button>
+                </button>
+                <button
+                  onClick={() => toggleStop(stop)}
+                  className={cn(
+                    "absolute top-3 right-3 p-2 transition-colors",
+                    isFavoriteStop(stop) ? "text-amber-400 hover:text-amber-300" : "text-muted-foreground/50 hover:text-foreground"
+                  )}
+                  title={isFavoriteStop(stop) ? 'Remove from my stops' : 'Add to my stops'}
+                >
+                  <Star className={cn("w-4 h-4", isFavoriteStop(stop) && "fill-current")} />
+                </button>
+              </div>
             ))}
           </div>
         )}
@@ -0,0 +1,169 @@
+import { useMemo, useState } from 'react';
+import { Route } from '@/types/transit';
+import { CAMPUS_BUILDINGS, CampusBuilding } from '@/lib/campusBuildings';
+import { findTripCandidates, getTripPredictionStops, planTrips, TripOption } from '@/lib/tripPlanner';
+import { usePredictions } from '@/hooks/use-transit';
+import { useTravelTimeModel } from '@/hooks/use-travel-times';
+import { useWalkingGraph } from '@/hooks/use-walking-graph';
+import { useNow } from '@/hooks/use-now';
+import { Bus, Footprints, LocateFixed, Navigation, RefreshCw, Route as RouteIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface TripPlannerProps {
+  destination: CampusBuilding;
+  routes: Route[];
+  userLocation: { lat: number; lon: number } | null;
+  onRequestLocation: () => void;
+  /** Show the walking route from the user's location on the map */
+  onShowWalkingRoute?: (building: CampusBuilding) => void;
+}
+
+const MY_LOCATION = 'me';
+
+const formatClockTime = (ms: number): string =>
+  new Date(ms).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+const formatMinutes = (secs: number): string => `${Math.max(1, Math.round(secs / 60))} min`;
+
+const TripPlanner = ({ destination, routes, userLocation, onRequestLocation, onShowWalkingRoute }: TripPlannerProps) => {
+  const [originId, setOriginId] = useState(MY_LOCATION);
+  const nowMs = useNow();
+  const { travelTimes } = useTravelTimeModel();
+  const { walkingGraph } = useWalkingGraph();
+
+  const origin = useMemo(() => {
+    return originId === MY_LOCATION
+      ? userLocation
+      : CAMPUS_BUILDINGS.find(b => b.id === originId) || null;
+  }, [originId, userLocation]);
+
+  const otherBuildings = useMemo(() => {
+    return CAMPUS_BUILDINGS
+      .filter(b => b.id !== destination.id)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [destination.id]);
+
+  const candidates = useMemo(() => {
+    return origin ? findTripCandidates(origin, destination, routes, walkingGraph) : [];
+  }, [origin, destination, routes, walkingGraph]);
+
+  const predictionStops = useMemo(() => getTripPredictionStops(candidates), [candidates]);
+  const { predictions, isLoading: loadingPredictions } = usePredictions(predictionStops);
+
+  const options = useMemo(() => {
+    return origin ? planTrips(origin, destination, candidates, predictions, travelTimes, walkingGraph, nowMs) : [];
+  }, [origin, destination, candidates, predictions, travelTimes, walkingGraph, nowMs]);
+
+  const renderOption = (option: TripOption, isBest: boolean) => {
+    if (option.kind === 'walk') {
+      return (
+        <div
+          key="walk"
+          className={cn("p-3 rounded-xl bg-background/60", isBest && "ring-2 ring-green-500")}
+        >
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 rounded-lg bg-primary/20 flex items-center justify-center flex-shrink-0">
+              <Footprints className="w-4 h-4 text-primary" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm">Walk · {formatMinutes(option.walkSecs)}</p>
+              <p className="text-xs text-muted-foreground">Arrive {formatClockTime(option.arrivalTime)}</p>
+            </div>
+            {originId === MY_LOCATION && onShowWalkingRoute && (
+              <button
+                onClick={() => onShowWalkingRoute(destination)}
+                className="p-2 rounded-lg hover:bg-primary/20 text-primary transition-colors"
+                title="Show walking route"
+              >
+                <Navigation className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    const color = option.route.color === '000000' ? '6B7280' : option.route.color;
+    return (
+      <div
+        key={`${option.route.tag}-${option.boardStop.tag}-${option.alightStop.tag}`}
+        className={cn("p-3 rounded-xl bg-background/60", isBest && "ring-2 ring-green-500")}
+      >
+        <div className="flex items-start gap-3">
+          <div
+            className="w-9 h-9 rounded-lg flex items-center justify-center flex-shrink-0"
+            style={{ backgroundColor: `#${color}` }}
+          >
+            <Bus className="w-4 h-4 text-white" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-medium text-sm truncate">{option.route.title}</p>
+              <p className="text-xs font-medium whitespace-nowrap">
+                Arrive {formatClockTime(option.arrivalTime)}{!option.isRideLive && ' (est.)'}
+              </p>
+            </div>
+            <ol className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+              <li>Walk {formatMinutes(option.walkToStopSecs)} to {option.boardStop.title}</li>
+              <li>
+                Bus #{option.vehicle} at {formatClockTime(option.departureTime)}, ride {option.stopsRidden} {option.stopsRidden === 1 ? 'stop' : 'stops'} to {option.alightStop.title}
+              </li>
+              <li>Walk {formatMinutes(option.walkFromStopSecs)} to {destination.abbreviation}</li>
+            </ol>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-3 rounded-xl bg-secondary mb-3">
+      <div className="flex items-center gap-3 mb-3">
+        <div className="w-9 h-9 rounded-lg bg-primary/20 flex items-center justify-center flex-shrink-0">
+          <RouteIcon className="w-4 h-4 text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-muted-foreground">Get here from</p>
+          <select
+            value={originId}
+            onChange={(e) => setOriginId(e.target.value)}
+            className="w-full mt-0.5 px-2 py-1 rounded-lg bg-background/60 border-0 text-sm"
+          >
+            <option value={MY_LOCATION}>My location</option>
+            {otherBuildings.map(b => (
+              <option key={b.id} value={b.id}>
+                {b.name} ({b.abbreviation})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!origin ? (
+        <button
+          onClick={onRequestLocation}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-colors"
+        >
+          <LocateFixed className="w-4 h-4" />
+          Use my location
+        </button>
+      ) : loadingPredictions ? (
+        <div className="flex items-center justify-center gap-2 py-3 text-xs text-muted-foreground">
+          <RefreshCw className="w-3 h-3 animate-spin" />
+          Checking buses...
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {options.map((option, i) => renderOption(option, i === 0 && options.length > 1))}
+          {options.length === 1 && (
+            <p className="text-xs text-muted-foreground text-center">
+              {candidates.length > 0 ? 'No bus gets you there sooner than walking right now.' : 'No bus route runs near both ends of this trip.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TripPlanner;
@@ -0,0 +1,131 @@
+import * as React from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { getTransitProvider } from "@/lib/api";
+import { transitKeys } from "@/lib/transitQueries";
+import {
+  ArrivalAlert,
+  NewArrivalAlert,
+  createArrivalAlert,
+  findTriggeringArrival,
+  getAlertPredictionStops,
+  loadArrivalAlerts,
+  requestNotificationPermission,
+  saveArrivalAlerts,
+  showArrivalNotification,
+} from "@/lib/arrivalAlerts";
+import { PUSHED_ALERT_MESSAGE, cancelPushAlert, listPushAlertIds, registerPushAlert } from "@/lib/pushAlerts";
+import { usePredictions } from "@/hooks/use-transit";
+
+// Saved alerts, minus push-backed ones the server has already sent or expired
+const loadCurrentAlerts = async (): Promise<ArrivalAlert[]> => {
+  const providerId = getTransitProvider().id;
+  const alerts = await loadArrivalAlerts(providerId);
+  if (!alerts.some(a => a.pushRuleId)) return alerts;
+
+  const activeRuleIds = await listPushAlertIds();
+  if (!activeRuleIds) return alerts;
+
+  const current = alerts.filter(a => !a.pushRuleId || activeRuleIds.has(a.pushRuleId));
+  if (current.length !== alerts.length) {
+    saveArrivalAlerts(providerId, current);
+  }
+  return current;
+};
+
+/** Active arrival alerts, with actions to add and cancel them */
+export function useArrivalAlerts() {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: transitKeys.arrivalAlerts,
+    queryFn: loadCurrentAlerts,
+    staleTime: Infinity,
+    networkMode: "always",
+  });
+
+  const updateAlerts = React.useCallback((update: (alerts: ArrivalAlert[]) => ArrivalAlert[]) => {
+    const alerts = update(queryClient.getQueryData<ArrivalAlert[]>(transitKeys.arrivalAlerts) ?? []);
+    queryClient.setQueryData(transitKeys.arrivalAlerts, alerts);
+    saveArrivalAlerts(getTransitProvider().id, alerts);
+  }, [queryClient]);
+
+  /**
+   * Add an alert, replacing any for the same stop and route
+   * @returns Whether system notifications are allowed (otherwise only in-app toasts show)
+   */
+  const addAlert = React.useCallback(async (alert: NewArrivalAlert) => {
+    const canNotify = await requestNotificationPermission();
+    const created = createArrivalAlert(alert);
+    const replaced = (queryClient.getQueryData<ArrivalAlert[]>(transitKeys.arrivalAlerts) ?? [])
+      .filter(a => a.stopTag === alert.stopTag && a.routeTag === alert.routeTag);
+    replaced.forEach(a => cancelPushAlert(a).catch(() => {}));
+    updateAlerts(alerts => [...alerts.filter(a => !replaced.includes(a)), created]);
+
+    // Also have the server push it, so it fires with the app closed
+    if (canNotify) {
+      registerPushAlert(created)
+        .then(pushRuleId => {
+          if (pushRuleId) {
+            updateAlerts(alerts => alerts.map(a => a.id === created.id ? { ...a, pushRuleId } : a));
+          }
+        })
+        .catch(error => console.warn("Push alert registration failed:", error));
+    }
+    return canNotify;
+  }, [queryClient, updateAlerts]);
+
+  const cancelAlert = React.useCallback((id: string) => {
+    const alert = queryClient.getQueryData<ArrivalAlert[]>(transitKeys.arrivalAlerts)?.find(a => a.id === id);
+    if (alert) {
+      cancelPushAlert(alert).catch(error => console.warn("Push alert cancel failed:", error));
+    }
+    updateAlerts(alerts => alerts.filter(a => a.id !== id));
+  }, [queryClient, updateAlerts]);
+
+  return {
+    ...query,
+    alerts: query.data ?? [],
+    addAlert,
+    cancelAlert,
+  };
+}
+
+/**
+ * Watch predictions for every active alert and fire the ones that are due
+ * Mount once, in the app's main view. Polling continues while the tab is hidden.
+ */
+export function useArrivalAlertWatcher() {
+  const { alerts, cancelAlert } = useArrivalAlerts();
+  const alertStops = React.useMemo(() => getAlertPredictionStops(alerts), [alerts]);
+  const { predictions } = usePredictions(alertStops, { pollInBackground: true });
+
+  React.useEffect(() => {
+    const now = Date.now();
+    alerts.forEach(alert => {
+      if (alert.expiresAt <= now) {
+        cancelAlert(alert.id);
+        return;
+      }
+
+      const arrival = findTriggeringArrival(alert, predictions, now);
+      if (!arrival) return;
+
+      cancelAlert(alert.id);
+      const minutes = Math.max(0, Math.round((arrival.epochTime - now) / 60000));
+      toast.info(`${alert.routeTitle} bus ${minutes === 0 ? "arriving now" : `${minutes} min away`} at ${alert.stopTitle}`);
+      showArrivalNotification(alert, arrival, now).catch(error => console.warn("Could not show notification:", error));
+    });
+  }, [alerts, predictions, cancelAlert]);
+
+  // The server pushed an alert (the service worker tells open tabs): drop the local copy
+  React.useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== PUSHED_ALERT_MESSAGE) return;
+      const pushed = alerts.find(a => a.pushRuleId === event.data.ruleId);
+      if (pushed) cancelAlert(pushed.id);
+    };
+    navigator.serviceWorker.addEventListener("message", handleMessage);
+    return () => navigator.serviceWorker.removeEventListener("message", handleMessage);
+  }, [alerts, cancelAlert]);
+}
@@ -0,0 +1,65 @@
+import * as React from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getSyncKey, pushSection, syncSection } from "@/lib/preferenceSync";
+import {
+  CLASS_SCHEDULE_SECTION,
+  ClassSchedule,
+  NewClassMeeting,
+  addClassMeetings,
+  createClassSchedule,
+  loadClassSchedule,
+  mergeClassMeetings,
+  removeClassMeeting,
+  replaceClassMeetings,
+  saveClassSchedule,
+  setClassBuilding,
+} from "@/lib/classSchedule";
+
+export const classScheduleKey = ["preferences", "classSchedule"] as const;
+
+/** The saved class schedule, with actions that persist (and sync) every change */
+export function useClassSchedule() {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: classScheduleKey,
+    queryFn: async () => {
+      const local = loadClassSchedule();
+      // Joining a sync code keeps the classes saved on both devices
+      const synced = await syncSection(CLASS_SCHEDULE_SECTION, local, mergeClassMeetings);
+      if (synced !== local) saveClassSchedule(synced);
+      return synced;
+    },
+    // The local schedule shows right away while the synced copy loads
+    placeholderData: loadClassSchedule,
+    staleTime: Infinity,
+    networkMode: "always",
+  });
+
+  const classes = (query.data ?? createClassSchedule()).data;
+
+  const update = React.useCallback((change: (schedule: ClassSchedule) => ClassSchedule) => {
+    const next = change(queryClient.getQueryData<ClassSchedule>(classScheduleKey) ?? loadClassSchedule());
+    queryClient.setQueryData(classScheduleKey, next);
+    saveClassSchedule(next);
+
+    const syncKey = getSyncKey();
+    if (syncKey) {
+      pushSection(syncKey, CLASS_SCHEDULE_SECTION, next)
+        .catch(error => console.warn("Could not sync class schedule:", error));
+    }
+  }, [queryClient]);
+
+  const addClasses = React.useCallback((meetings: NewClassMeeting[]) => update(s => addClassMeetings(s, meetings)), [update]);
+  const replaceClasses = React.useCallback((meetings: NewClassMeeting[]) => update(() => replaceClassMeetings(meetings)), [update]);
+  const removeClass = React.useCallback((id: string) => update(s => removeClassMeeting(s, id)), [update]);
+  const setBuilding = React.useCallback((id: string, buildingId: string | null) => update(s => setClassBuilding(s, id, buildingId)), [update]);
+
+  return {
+    ...query,
+    classes,
+    addClasses,
+    replaceClasses,
+    removeClass,
+    setBuilding,
+  };
+}
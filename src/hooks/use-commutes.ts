@@ -0,0 +1,59 @@
+import * as React from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getSyncKey, pushSection, syncSection } from "@/lib/preferenceSync";
+import {
+  COMMUTES_SECTION,
+  Commutes,
+  NewCommute,
+  addCommute,
+  createCommutes,
+  loadCommutes,
+  mergeCommutes,
+  removeCommute,
+  saveCommutes,
+} from "@/lib/commutes";
+
+export const commutesKey = ["preferences", "commutes"] as const;
+
+/** Saved commutes, with actions that persist (and sync) every change */
+export function useCommutes() {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: commutesKey,
+    queryFn: async () => {
+      const local = loadCommutes();
+      // Joining a sync code keeps the commutes saved on both devices
+      const synced = await syncSection(COMMUTES_SECTION, local, mergeCommutes);
+      if (synced !== local) saveCommutes(synced);
+      return synced;
+    },
+    // Local commutes show right away while the synced copy loads
+    placeholderData: loadCommutes,
+    staleTime: Infinity,
+    networkMode: "always",
+  });
+
+  const commutes = (query.data ?? createCommutes()).data;
+
+  const update = React.useCallback((change: (commutes: Commutes) => Commutes) => {
+    const next = change(queryClient.getQueryData<Commutes>(commutesKey) ?? loadCommutes());
+    queryClient.setQueryData(commutesKey, next);
+    saveCommutes(next);
+
+    const syncKey = getSyncKey();
+    if (syncKey) {
+      pushSection(syncKey, COMMUTES_SECTION, next)
+        .catch(error => console.warn("Could not sync commutes:", error));
+    }
+  }, [queryClient]);
+
+  const add = React.useCallback((commute: NewCommute) => update(c => addCommute(c, commute)), [update]);
+  const remove = React.useCallback((id: string) => update(c => removeCommute(c, id)), [update]);
+
+  return {
+    ...query,
+    commutes,
+    addCommute: add,
+    removeCommute: remove,
+  };
+}
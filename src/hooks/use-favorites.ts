@@ -0,0 +1,69 @@
+import * as React from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Stop } from "@/types/transit";
+import { getTransitProvider } from "@/lib/api";
+import { getSyncKey, pushSection, syncSection } from "@/lib/preferenceSync";
+import {
+  Favorites,
+  createFavorites,
+  favoritesSection,
+  isFavoriteRoute,
+  isFavoriteStop,
+  loadFavorites,
+  mergeFavorites,
+  removeFavoriteStop,
+  saveFavorites,
+  toggleFavoriteRoute,
+  toggleFavoriteStop,
+} from "@/lib/favorites";
+
+export const favoritesKey = ["preferences", "favorites"] as const;
+
+/** Starred stops and routes, with toggles that persist (and sync) every change */
+export function useFavorites() {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: favoritesKey,
+    queryFn: async () => {
+      const providerId = getTransitProvider().id;
+      const local = loadFavorites(providerId);
+      // Joining a sync code keeps the favorites starred on both devices
+      const synced = await syncSection(favoritesSection(providerId), local, mergeFavorites);
+      if (synced !== local) saveFavorites(providerId, synced);
+      return synced;
+    },
+    // Local favorites show right away while the synced copy loads
+    placeholderData: () => loadFavorites(getTransitProvider().id),
+    staleTime: Infinity,
+    networkMode: "always",
+  });
+
+  const favorites = query.data ?? createFavorites();
+
+  const update = React.useCallback((change: (favorites: Favorites) => Favorites) => {
+    const providerId = getTransitProvider().id;
+    const next = change(queryClient.getQueryData<Favorites>(favoritesKey) ?? loadFavorites(providerId));
+    queryClient.setQueryData(favoritesKey, next);
+    saveFavorites(providerId, next);
+
+    const syncKey = getSyncKey();
+    if (syncKey) {
+      pushSection(syncKey, favoritesSection(providerId), next)
+        .catch(error => console.warn("Could not sync favorites:", error));
+    }
+  }, [queryClient]);
+
+  const toggleStop = React.useCallback((stop: Stop) => update(f => toggleFavoriteStop(f, stop)), [update]);
+  const removeStop = React.useCallback((key: string) => update(f => removeFavoriteStop(f, key)), [update]);
+  const toggleRoute = React.useCallback((routeTag: string) => update(f => toggleFavoriteRoute(f, routeTag)), [update]);
+
+  return {
+    ...query,
+    favorites,
+    isFavoriteStop: (stop: Stop) => isFavoriteStop(favorites, stop),
+    isFavoriteRoute: (routeTag: string) => isFavoriteRoute(favorites, routeTag),
+    toggleStop,
+    removeStop,
+    toggleRoute,
+  };
+}
@@ -0,0 +1,13 @@
+import * as React from "react";
+
+/** Current time in ms, re-rendering every `intervalMs` so relative times and staleness stay fresh */
+export function useNow(intervalMs: number = 15000) {
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+}
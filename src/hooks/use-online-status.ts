@@ -0,0 +1,20 @@
+import * as React from "react";
+
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = React.useState<boolean>(
+    typeof navigator === "undefined" ? true : navigator.onLine
+  );
+
+  React.useEffect(() => {
+    const onOnline = () => setIsOnline(true);
+    const onOffline = () => setIsOnline(false);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, []);
+
+  return isOnline;
+}
@@ -0,0 +1,121 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { fetchRouteConfig, fetchVehicleLocations, fetchPredictionsForStops, getTransitProvider } from "@/lib/api";
+import {
+  CachedRouteConfig,
+  loadCachedRouteConfig,
+  saveRouteConfig,
+  diffRouteConfigs,
+  hasRiderFacingChanges,
+  summarizeRouteConfigDiff,
+} from "@/lib/routeConfigCache";
+import { REFRESH_INTERVALS, transitKeys } from "@/lib/transitQueries";
+import { Route, StopRouteKey } from "@/types/transit";
+
+interface PollingOptions {
+  /** Poll interval in ms, or false to only read what other views fetch */
+  refreshInterval?: number | false;
+  /** Keep polling while the tab is hidden */
+  pollInBackground?: boolean;
+}
+
+// Providers already retry transient failures with backoff (see withRetry),
+// so react-query shouldn't stack its own retries on top
+const NO_QUERY_RETRY = false;
+
+const toLastUpdated = (dataUpdatedAt: number): Date | null =>
+  dataUpdatedAt > 0 ? new Date(dataUpdatedAt) : null;
+
+// The first route config load of a session is served from IndexedDB (if
+// present) and revalidated in the background; later loads hit the feed
+let hasServedCachedRoutes = false;
+
+const fetchAndPersistRoutes = async (
+  providerId: string,
+  previous: CachedRouteConfig | null
+): Promise<{ routes: Route[]; changed: boolean }> => {
+  const routes = await fetchRouteConfig();
+  const saved = await saveRouteConfig(providerId, routes);
+  const changed = !!previous && previous.hash !== saved.hash;
+
+  if (changed) {
+    const diff = diffRouteConfigs(previous.routes, routes);
+    if (hasRiderFacingChanges(diff)) {
+      toast.info(`Route map updated: ${summarizeRouteConfigDiff(diff)}`);
+    }
+  }
+
+  return { routes, changed };
+};
+
+export function useRouteConfig() {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: transitKeys.routeConfig,
+    queryFn: async () => {
+      const providerId = getTransitProvider().id;
+      const cached = await loadCachedRouteConfig(providerId);
+
+      if (cached && !hasServedCachedRoutes) {
+        hasServedCachedRoutes = true;
+        fetchAndPersistRoutes(providerId, cached)
+          .then(({ routes, changed }) => {
+            if (changed) queryClient.setQueryData(transitKeys.routeConfig, routes);
+          })
+          .catch(error => console.warn('Route config revalidation failed:', error));
+        return cached.routes;
+      }
+
+      const { routes } = await fetchAndPersistRoutes(providerId, cached);
+      return routes;
+    },
+    // Route configuration only changes a few times a year
+    staleTime: Infinity,
+    retry: NO_QUERY_RETRY,
+    // Run even while offline so the persisted copy can be served
+    networkMode: "offlineFirst",
+  });
+
+  return {
+    ...query,
+    routes: query.data ?? [],
+    lastUpdated: toLastUpdated(query.dataUpdatedAt),
+  };
+}
+
+export function useVehicles({ refreshInterval = REFRESH_INTERVALS.vehicles }: PollingOptions = {}) {
+  const query = useQuery({
+    queryKey: transitKeys.vehicles,
+    queryFn: () => fetchVehicleLocations(),
+    refetchInterval: refreshInterval,
+    refetchIntervalInBackground: false,
+    retry: NO_QUERY_RETRY,
+  });
+
+  return {
+    ...query,
+    vehicles: query.data ?? [],
+    lastUpdated: toLastUpdated(query.dataUpdatedAt),
+  };
+}
+
+export function usePredictions(
+  stops: StopRouteKey[],
+  { refreshInterval = REFRESH_INTERVALS.predictions, pollInBackground = false }: PollingOptions = {}
+) {
+  const query = useQuery({
+    queryKey: transitKeys.predictions(stops),
+    // All route/stop pairs go out in a single batched request
+    queryFn: () => fetchPredictionsForStops(stops),
+    enabled: stops.length > 0,
+    refetchInterval: refreshInterval,
+    refetchIntervalInBackground: pollInBackground,
+    retry: NO_QUERY_RETRY,
+  });
+
+  return {
+    ...query,
+    predictions: query.data ?? [],
+    lastUpdated: toLastUpdated(query.dataUpdatedAt),
+  };
+}
@@ -0,0 +1,79 @@
+import * as React from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getTransitProvider } from "@/lib/api";
+import { transitKeys } from "@/lib/transitQueries";
+import {
+  TravelTimeModel,
+  createTravelTimeRecorderState,
+  loadTravelTimeModel,
+  recordVehicleReports,
+  saveTravelTimeModel,
+} from "@/lib/travelTimes";
+import { useRouteConfig, useVehicles } from "@/hooks/use-transit";
+
+// Persist the model at most this often while recording
+const SAVE_INTERVAL_MS = 60000;
+
+/** The historical travel-time model, loaded once from IndexedDB */
+export function useTravelTimeModel() {
+  const query = useQuery({
+    queryKey: transitKeys.travelTimes,
+    queryFn: () => loadTravelTimeModel(getTransitProvider().id),
+    staleTime: Infinity,
+    networkMode: "always",
+  });
+
+  return {
+    ...query,
+    travelTimes: query.data ?? null,
+  };
+}
+
+/**
+ * Feed every vehicle poll into the travel-time model
+ * Mount once, in the view that keeps vehicles polling.
+ */
+export function useTravelTimeRecorder() {
+  const queryClient = useQueryClient();
+  const { routes } = useRouteConfig();
+  const { vehicles, dataUpdatedAt } = useVehicles({ refreshInterval: false });
+  const { travelTimes } = useTravelTimeModel();
+
+  const recorderStateRef = React.useRef(createTravelTimeRecorderState());
+  const recordedAtRef = React.useRef(0);
+  const lastSavedRef = React.useRef(0);
+  const unsavedRef = React.useRef<TravelTimeModel | null>(null);
+
+  React.useEffect(() => {
+    if (!travelTimes || routes.length === 0 || dataUpdatedAt === 0) return;
+    // Each poll is recorded once, however often this re-runs
+    if (dataUpdatedAt === recordedAtRef.current) return;
+    recordedAtRef.current = dataUpdatedAt;
+
+    const recorded = recordVehicleReports(travelTimes, recorderStateRef.current, vehicles, routes, dataUpdatedAt);
+    if (recorded === 0) return;
+
+    // The model is updated in place; a new reference lets consumers re-render
+    queryClient.setQueryData(transitKeys.travelTimes, { ...travelTimes });
+    unsavedRef.current = travelTimes;
+    if (Date.now() - lastSavedRef.current > SAVE_INTERVAL_MS) {
+      lastSavedRef.current = Date.now();
+      unsavedRef.current = null;
+      saveTravelTimeModel(getTransitProvider().id, travelTimes);
+    }
+  }, [travelTimes, routes, vehicles, dataUpdatedAt, queryClient]);
+
+  // Flush whatever is left when the page goes away
+  React.useEffect(() => {
+    const flush = () => {
+      if (!unsavedRef.current) return;
+      saveTravelTimeModel(getTransitProvider().id, unsavedRef.current);
+      unsavedRef.current = null;
+    };
+    window.addEventListener("pagehide", flush);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, []);
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { loadWalkingGraph } from "@/lib/walkingRouter";
+
+const walkingGraphKey = ["walkingGraph"] as const;
+
+/** The bundled campus walking graph, loaded once on first use */
+export function useWalkingGraph() {
+  const query = useQuery({
+    queryKey: walkingGraphKey,
+    queryFn: loadWalkingGraph,
+    staleTime: Infinity,
+    networkMode: "always",
+  });
+
+  return {
+    ...query,
+    walkingGraph: query.data ?? null,
+  };
+}
@@ -0,0 +1,132 @@
+import { StopPredictions, Prediction, StopRouteKey } from '@/types/transit';
+import { runStoreRequest } from '@/lib/localDb';
+
+// "Notify me when the next bus is N minutes away" alerts.
+// Alerts are kept in IndexedDB so they survive reloads, and checked against
+// predictions by useArrivalAlertWatcher, which keeps polling while the app is
+// in the background. Each alert fires once and is then removed; alerts that
+// never fire (service ended, bus pulled) expire on their own.
+// Where Web Push is set up, alerts are also registered with the server so they
+// fire with the app closed (see pushAlerts).
+
+// Lead times offered when setting an alert, in minutes
+export const ALERT_LEAD_MINUTES = [2, 5, 10, 15];
+// Alerts that haven't fired by then are dropped
+const ALERT_TTL_MS = 2 * 60 * 60 * 1000;
+
+export interface ArrivalAlert {
+  id: string;
+  stopTag: string;
+  /** Public stop id, for opening the stop from the notification */
+  stopId: string;
+  stopTitle: string;
+  routeTag: string;
+  routeTitle: string;
+  /** Fire once a bus is this many minutes away */
+  leadMinutes: number;
+  createdAt: number;
+  expiresAt: number;
+  /** The matching rule on the push service, if registered */
+  pushRuleId?: string;
+}
+
+export type NewArrivalAlert = Omit<ArrivalAlert, 'id' | 'createdAt' | 'expiresAt' | 'pushRuleId'>;
+
+/** Fill in id and timestamps for a new alert */
+export const createArrivalAlert = (alert: NewArrivalAlert, now: number = Date.now()): ArrivalAlert => ({
+  ...alert,
+  id: `${alert.routeTag}|${alert.stopTag}|${now}`,
+  createdAt: now,
+  expiresAt: now + ALERT_TTL_MS,
+});
+
+/** Stops whose predictions the alerts need */
+export const getAlertPredictionStops = (alerts: ArrivalAlert[]): StopRouteKey[] => {
+  const keys = new Map<string, StopRouteKey>();
+  alerts.forEach(a => keys.set(`${a.routeTag}|${a.stopTag}`, { stopTag: a.stopTag, routeTag: a.routeTag }));
+  return Array.from(keys.values());
+};
+
+/**
+ * The arrival that triggers an alert, if any
+ * @param alert The alert
+ * @param predictions Current predictions
+ * @param now Reference time in ms
+ * @returns The soonest prediction within the alert's lead time
+ */
+export const findTriggeringArrival = (
+  alert: ArrivalAlert,
+  predictions: StopPredictions[],
+  now: number = Date.now()
+): Prediction | null => {
+  const arrivals = predictions
+    .filter(p => p.routeTag === alert.routeTag && p.stopTag === alert.stopTag)
+    .flatMap(p => p.directions.flatMap(d => d.predictions))
+    .filter(pred => pred.epochTime >= now - 60000)
+    .sort((a, b) => a.epochTime - b.epochTime);
+
+  const next = arrivals[0];
+  return next && next.epochTime - now <= alert.leadMinutes * 60000 ? next : null;
+};
+
+/** Whether the browser can show system notifications at all */
+export const canNotify = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+/**
+ * Ask for notification permission if it hasn't been decided yet
+ * @returns Whether notifications may be shown
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!canNotify()) return false;
+  if (Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+  return Notification.permission === 'granted';
+};
+
+/**
+ * Show the system notification for a triggered alert
+ * Goes through the service worker where there is one, which is what lets
+ * installed apps and mobile browsers show it while the app is in the background.
+ */
+export const showArrivalNotification = async (alert: ArrivalAlert, arrival: Prediction, now: number = Date.now()) => {
+  if (!canNotify() || Notification.permission !== 'granted') return;
+
+  const minutes = Math.max(0, Math.round((arrival.epochTime - now) / 60000));
+  const title = `${alert.routeTitle} bus ${minutes === 0 ? 'arriving now' : `${minutes} min away`}`;
+  const options: NotificationOptions = {
+    body: `Bus #${arrival.vehicle} to ${alert.stopTitle}`,
+    // Same tag as the server's push, so the two replace rather than stack
+    tag: alert.pushRuleId || alert.id,
+    icon: '/icon-192.png',
+    // Read by the service worker's notificationclick handler (public/alert-sw.js)
+    data: { url: `/?stop=${encodeURIComponent(alert.stopId)}` },
+  };
+
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    new Notification(title, options);
+  }
+};
+
+/** Load the alerts saved for a provider */
+export const loadArrivalAlerts = async (providerId: string): Promise<ArrivalAlert[]> => {
+  try {
+    const alerts = await runStoreRequest<ArrivalAlert[] | undefined>('arrivalAlerts', 'readonly', store => store.get(providerId));
+    return (alerts || []).filter(a => a.expiresAt > Date.now());
+  } catch (error) {
+    console.warn('Arrival alerts unavailable:', error);
+    return [];
+  }
+};
+
+/** Persist the alerts for a provider */
+export const saveArrivalAlerts = async (providerId: string, alerts: ArrivalAlert[]): Promise<void> => {
+  try {
+    await runStoreRequest('arrivalAlerts', 'readwrite', store => store.put(alerts, providerId));
+  } catch (error) {
+    console.warn('Could not persist arrival alerts:', error);
+  }
+};
@@ -0,0 +1,104 @@
+import { Route, VehicleLocation, StopPredictions, StopRouteKey } from '@/types/transit';
+import { matchVehicleToRoute } from '@/lib/mapMatching';
+import { TravelTimeModel, estimateStopArrivals } from '@/lib/travelTimes';
+
+// Per-bus timeline of upcoming stops.
+// Times come from the feed's predictions for that vehicle wherever it has one.
+// Stops without a prediction use the travel-time model, counted on from the
+// closest earlier stop that does have one (or the bus itself).
+
+// A prediction slightly in the past is still the bus arriving
+const PAST_PREDICTION_GRACE_MS = 30000;
+
+export interface BusJourneyStop {
+  tag: string;
+  title: string;
+  stopId: string;
+  /** Minutes from now (0 at the current stop) */
+  estimatedMinutes: number | null;
+  isCurrent: boolean;
+  /** The time is the feed's prediction for this bus rather than an estimate */
+  isLive: boolean;
+}
+
+/**
+ * Stops whose predictions a bus's journey needs
+ * @param vehicle The bus
+ * @param route The bus's route
+ */
+export const getJourneyStopKeys = (vehicle: VehicleLocation, route: Route): StopRouteKey[] => {
+  const direction = route.directions.find(d => d.tag === vehicle.dirTag);
+  return direction ? direction.stops.map(stopTag => ({ stopTag, routeTag: route.tag })) : [];
+};
+
+// Arrival times (ms, ascending) of one vehicle at each stop of a route
+const getVehicleArrivals = (predictions: StopPredictions[], routeTag: string, vehicleId: string): Map<string, number[]> => {
+  const arrivals = new Map<string, number[]>();
+  predictions
+    .filter(p => p.routeTag === routeTag)
+    .forEach(p => {
+      const times = p.directions
+        .flatMap(d => d.predictions)
+        .filter(pred => pred.vehicle === vehicleId)
+        .map(pred => pred.epochTime);
+      if (times.length > 0) {
+        arrivals.set(p.stopTag, [...(arrivals.get(p.stopTag) || []), ...times].sort((a, b) => a - b));
+      }
+    });
+  return arrivals;
+};
+
+/**
+ * Upcoming stops of a bus with arrival times
+ * @param vehicle The bus
+ * @param route The bus's route
+ * @param predictions Feed predictions for the route's stops (other vehicles are ignored)
+ * @param travelTimes Historical travel times for stops without a prediction (null for distance-based estimates)
+ * @param now Reference time in ms
+ * @returns Stops from the bus's current or next stop onward; empty if the bus can't be placed on its route
+ */
+export const buildBusJourney = (
+  vehicle: VehicleLocation,
+  route: Route,
+  predictions: StopPredictions[],
+  travelTimes: TravelTimeModel | null,
+  now: number = Date.now()
+): BusJourneyStop[] => {
+  const progress = matchVehicleToRoute(vehicle, route);
+  if (!progress) return [];
+
+  const arrivals = getVehicleArrivals(predictions, route.tag, vehicle.id);
+  // Estimates are relative to the last stop with a prediction (or the bus itself)
+  let anchor = { secs: 0, time: now };
+  let previousTime = now;
+
+  return estimateStopArrivals(travelTimes, progress, new Date(now)).map(estimate => {
+    const { stop, isCurrent } = estimate;
+
+    // The first prediction not before the previous stop, so a loop's second
+    // visit to a stop picks up the next lap's prediction
+    const live = isCurrent
+      ? undefined
+      : arrivals.get(stop.tag)?.find(time => time >= previousTime - PAST_PREDICTION_GRACE_MS);
+
+    let time: number;
+    if (isCurrent) {
+      time = now;
+    } else if (live !== undefined) {
+      time = Math.max(live, now);
+      anchor = { secs: estimate.secs, time };
+    } else {
+      time = anchor.time + (estimate.secs - anchor.secs) * 1000;
+    }
+    previousTime = time;
+
+    return {
+      tag: stop.tag,
+      title: stop.title,
+      stopId: stop.stopId,
+      estimatedMinutes: isCurrent ? 0 : Math.max(0, Math.round((time - now) / 60000)),
+      isCurrent,
+      isLive: live !== undefined,
+    };
+  });
+};
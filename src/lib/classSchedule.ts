@@ -0,0 +1,211 @@
+import { CAMPUS_BUILDINGS, CampusBuilding } from '@/lib/campusBuildings';
+import { SyncedSection } from '@/lib/preferenceSync';
+
+// A student's weekly class schedule, imported from an .ics export (TopNet,
+// Google Calendar, Outlook...) or entered by hand. Each class's location is
+// matched to a campus building so trips between consecutive classes can be
+// planned. Kept in localStorage and optionally synced, like commutes.
+
+const STORAGE_KEY = 'topperbus:classSchedule';
+
+/** Sync section name for the class schedule */
+export const CLASS_SCHEDULE_SECTION = 'classSchedule';
+
+export interface ClassMeeting {
+  id: string;
+  title: string;
+  /** Days of the week it meets, 0 = Sunday */
+  days: number[];
+  /** In minutes after midnight */
+  startMinutes: number;
+  endMinutes: number;
+  /** Location as entered or imported, e.g. "Cherry Hall 125" */
+  location: string;
+  /** Matched campus building, null when the location wasn't recognized */
+  buildingId: string | null;
+}
+
+export type NewClassMeeting = Omit<ClassMeeting, 'id' | 'buildingId'>;
+
+export type ClassSchedule = SyncedSection<ClassMeeting[]>;
+
+/** Back-to-back classes in different buildings */
+export interface ClassTransfer {
+  from: ClassMeeting;
+  to: ClassMeeting;
+  /** Time between the end of one and the start of the next */
+  gapMinutes: number;
+}
+
+const ICS_WEEKDAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+// Longest first, so a name that contains another building's name wins
+const BUILDINGS_BY_NAME_LENGTH = [...CAMPUS_BUILDINGS].sort((a, b) => b.name.length - a.name.length);
+
+/**
+ * The campus building a class location refers to
+ * @param location Free text such as "Cherry Hall 125", "CH 125" or "GRH-4111"
+ * @returns The building matched by full name, then by abbreviation; null if neither
+ */
+export const matchBuilding = (location: string): CampusBuilding | null => {
+  const normalized = location.toLowerCase().replace(/\s+/g, ' ');
+  const byName = BUILDINGS_BY_NAME_LENGTH.find(b => normalized.includes(b.name.toLowerCase()));
+  if (byName) return byName;
+
+  const tokens = location.toUpperCase().split(/[^A-Z0-9]+/);
+  return CAMPUS_BUILDINGS.find(b => tokens.includes(b.abbreviation.toUpperCase())) || null;
+};
+
+export const createClassSchedule = (): ClassSchedule => ({ data: [], updatedAt: 0 });
+
+const toMeeting = (meeting: NewClassMeeting): ClassMeeting => ({
+  ...meeting,
+  id: crypto.randomUUID(),
+  buildingId: matchBuilding(meeting.location)?.id ?? null,
+});
+
+export const addClassMeetings = (schedule: ClassSchedule, meetings: NewClassMeeting[], now: number = Date.now()): ClassSchedule => ({
+  data: [...schedule.data, ...meetings.map(toMeeting)],
+  updatedAt: now,
+});
+
+/** Replace the whole schedule, e.g. with a fresh import */
+export const replaceClassMeetings = (meetings: NewClassMeeting[], now: number = Date.now()): ClassSchedule => ({
+  data: meetings.map(toMeeting),
+  updatedAt: now,
+});
+
+export const removeClassMeeting = (schedule: ClassSchedule, id: string, now: number = Date.now()): ClassSchedule => ({
+  data: schedule.data.filter(m => m.id !== id),
+  updatedAt: now,
+});
+
+/** Point a class at a building by hand, for locations that weren't recognized */
+export const setClassBuilding = (schedule: ClassSchedule, id: string, buildingId: string | null, now: number = Date.now()): ClassSchedule => ({
+  data: schedule.data.map(m => m.id === id ? { ...m, buildingId } : m),
+  updatedAt: now,
+});
+
+// The same class imported or entered on two devices gets different ids
+const meetingIdentity = (m: ClassMeeting) =>
+  [m.title.trim().toLowerCase(), [...m.days].sort((a, b) => a - b).join(), m.startMinutes, m.endMinutes, m.location.trim().toLowerCase()].join('|');
+
+/** Classes saved on either device, for joining a sync code (the synced ones first) */
+export const mergeClassMeetings = (local: ClassMeeting[], remote: ClassMeeting[]): ClassMeeting[] => {
+  const remoteIds = new Set(remote.map(m => m.id));
+  const remoteClasses = new Set(remote.map(meetingIdentity));
+  return [...remote, ...local.filter(m => !remoteIds.has(m.id) && !remoteClasses.has(meetingIdentity(m)))];
+};
+
+/** Classes meeting on a weekday, in order */
+export const getClassesOn = (meetings: ClassMeeting[], day: number): ClassMeeting[] =>
+  meetings
+    .filter(m => m.days.includes(day))
+    .sort((a, b) => a.startMinutes - b.startMinutes);
+
+/**
+ * Moves between consecutive classes on a weekday
+ * Classes whose building is unknown break the chain: there's nothing to plan to or from them.
+ */
+export const getClassTransfers = (meetings: ClassMeeting[], day: number): ClassTransfer[] => {
+  const classes = getClassesOn(meetings, day);
+  const transfers: ClassTransfer[] = [];
+  for (let i = 1; i < classes.length; i++) {
+    const from = classes[i - 1];
+    const to = classes[i];
+    if (!from.buildingId || !to.buildingId || from.buildingId === to.buildingId) continue;
+    transfers.push({ from, to, gapMinutes: to.startMinutes - from.endMinutes });
+  }
+  return transfers;
+};
+
+// RFC 5545: long lines continue on the next line after a space or tab
+const unfoldIcsLines = (text: string): string[] =>
+  text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+const unescapeIcsText = (value: string): string =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+// DTSTART/DTEND value to local time of day and weekday. Floating and TZID times
+// are taken as written (campus local time); UTC ("Z") times are converted.
+const parseIcsDateTime = (value: string): { minutes: number; day: number } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})\d{2}(Z?)$/);
+  if (!match) return null;
+  const [, year, month, date, hours, minutes, utc] = match;
+  const at = utc
+    ? new Date(Date.UTC(+year, +month - 1, +date, +hours, +minutes))
+    : new Date(+year, +month - 1, +date, +hours, +minutes);
+  return { minutes: at.getHours() * 60 + at.getMinutes(), day: at.getDay() };
+};
+
+/**
+ * Weekly classes from an iCalendar export
+ * Each timed event becomes a class meeting on its RRULE's BYDAY days (or the
+ * weekday it starts on). Repeated copies of the same class collapse into one.
+ * @param text .ics file contents
+ */
+export const parseIcsSchedule = (text: string): NewClassMeeting[] => {
+  const meetings = new Map<string, NewClassMeeting>();
+  let event: Record<string, string> | null = null;
+
+  for (const line of unfoldIcsLines(text)) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT' && event) {
+      const start = event.DTSTART ? parseIcsDateTime(event.DTSTART) : null;
+      const end = event.DTEND ? parseIcsDateTime(event.DTEND) : null;
+      if (start && end && end.minutes > start.minutes) {
+        const byDay = event.RRULE?.match(/BYDAY=([A-Z,0-9+-]+)/)?.[1];
+        const days = byDay
+          ? byDay.split(',').map(d => ICS_WEEKDAYS[d.slice(-2)]).filter(d => d !== undefined)
+          : [start.day];
+        const meeting: NewClassMeeting = {
+          title: unescapeIcsText(event.SUMMARY || 'Class'),
+          days,
+          startMinutes: start.minutes,
+          endMinutes: end.minutes,
+          location: unescapeIcsText(event.LOCATION || ''),
+        };
+
+        const key = `${meeting.title}|${meeting.location}|${meeting.startMinutes}|${meeting.endMinutes}`;
+        const existing = meetings.get(key);
+        if (existing) {
+          existing.days = Array.from(new Set([...existing.days, ...days])).sort((a, b) => a - b);
+        } else {
+          meetings.set(key, meeting);
+        }
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    // NAME;PARAM=...:VALUE
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    event[name] = line.slice(separator + 1);
+  }
+
+  return Array.from(meetings.values());
+};
+
+export const loadClassSchedule = (): ClassSchedule => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : createClassSchedule();
+  } catch (error) {
+    console.warn('Class schedule unavailable:', error);
+    return createClassSchedule();
+  }
+};
+
+export const saveClassSchedule = (schedule: ClassSchedule) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(schedule));
+  } catch (error) {
+    console.warn('Could not save class schedule:', error);
+  }
+};
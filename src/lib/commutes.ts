@@ -0,0 +1,96 @@
+import { SyncedSection } from '@/lib/preferenceSync';
+
+// Commute profiles: a trip made on set weekdays to arrive somewhere by a set
+// time, like "Mon/Wed/Fri 9:10 from Pearce-Ford Tower to Cherry Hall".
+// Near that time the home screen suggests when to leave and which buses make it.
+// Commutes are between campus buildings, so unlike favorites they don't depend
+// on the transit provider. Kept in localStorage and optionally synced.
+
+const STORAGE_KEY = 'topperbus:commutes';
+
+/** Sync section name for commutes */
+export const COMMUTES_SECTION = 'commutes';
+
+// A commute is suggested from this long before its arrival time
+export const COMMUTE_LOOKAHEAD_MINUTES = 90;
+
+export interface Commute {
+  id: string;
+  /** Days of the week it applies, 0 = Sunday */
+  days: number[];
+  /** Time to arrive by, in minutes after midnight */
+  arriveByMinutes: number;
+  /** Campus building ids */
+  fromBuildingId: string;
+  toBuildingId: string;
+}
+
+export type NewCommute = Omit<Commute, 'id'>;
+
+export type Commutes = SyncedSection<Commute[]>;
+
+export interface UpcomingCommute {
+  commute: Commute;
+  /** Today's arrival time, in ms */
+  arriveBy: number;
+}
+
+export const createCommutes = (): Commutes => ({ data: [], updatedAt: 0 });
+
+export const addCommute = (commutes: Commutes, commute: NewCommute, now: number = Date.now()): Commutes => ({
+  data: [...commutes.data, { ...commute, id: crypto.randomUUID() }],
+  updatedAt: now,
+});
+
+export const removeCommute = (commutes: Commutes, id: string, now: number = Date.now()): Commutes => ({
+  data: commutes.data.filter(c => c.id !== id),
+  updatedAt: now,
+});
+
+// Commutes with the same trip and days are the same commute, whichever device added it
+const commuteIdentity = (c: Commute) =>
+  [[...c.days].sort((a, b) => a - b).join(), c.arriveByMinutes, c.fromBuildingId, c.toBuildingId].join('|');
+
+/** Commutes saved on either device, for joining a sync code (the synced ones first) */
+export const mergeCommutes = (local: Commute[], remote: Commute[]): Commute[] => {
+  const remoteIds = new Set(remote.map(c => c.id));
+  const remoteTrips = new Set(remote.map(commuteIdentity));
+  return [...remote, ...local.filter(c => !remoteIds.has(c.id) && !remoteTrips.has(commuteIdentity(c)))];
+};
+
+/**
+ * The next commute due within the lookahead
+ * @param commutes Saved commutes
+ * @param now Reference time in ms
+ * @returns The commute with the soonest arrival time today that hasn't passed, if any is close enough
+ */
+export const getUpcomingCommute = (commutes: Commute[], now: number = Date.now()): UpcomingCommute | null => {
+  const today = new Date(now);
+
+  return commutes
+    .filter(c => c.days.includes(today.getDay()))
+    .map(commute => ({
+      commute,
+      arriveBy: new Date(today.getFullYear(), today.getMonth(), today.getDate(), 0, commute.arriveByMinutes).getTime(),
+    }))
+    .filter(({ arriveBy }) => arriveBy >= now && arriveBy - now <= COMMUTE_LOOKAHEAD_MINUTES * 60000)
+    .sort((a, b) => a.arriveBy - b.arriveBy)[0] || null;
+};
+
+export const loadCommutes = (): Commutes => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : createCommutes();
+  } catch (error) {
+    console.warn('Commutes unavailable:', error);
+    return createCommutes();
+  }
+};
+
+export const saveCommutes = (commutes: Commutes) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(commutes));
+  } catch (error) {
+    console.warn('Could not save commutes:', error);
+  }
+};
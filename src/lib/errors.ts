@@ -0,0 +1,104 @@
+// Typed errors surfaced by every transit data fetch.
+// Providers throw these so the UI can tell "no buses" apart from "feed down".
+
+export type TransitErrorKind = 'network' | 'feed' | 'rateLimited' | 'parse';
+
+export class TransitError extends Error {
+  readonly kind: TransitErrorKind;
+  /** Whether repeating the same request may succeed */
+  readonly shouldRetry: boolean;
+
+  constructor(kind: TransitErrorKind, message: string, shouldRetry: boolean) {
+    super(message);
+    this.name = 'TransitError';
+    this.kind = kind;
+    this.shouldRetry = shouldRetry;
+  }
+}
+
+/** The request never got a usable HTTP response (offline, DNS, 5xx, ...) */
+export class NetworkError extends TransitError {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    // Server errors are usually transient; client errors are not
+    super('network', message, status === undefined || status >= 500);
+    this.name = 'NetworkError';
+    this.status = status;
+  }
+}
+
+/** The feed answered with an error of its own, e.g. an unknown stop */
+export class FeedError extends TransitError {
+  constructor(message: string, shouldRetry: boolean) {
+    super('feed', message, shouldRetry);
+    this.name = 'FeedError';
+  }
+}
+
+/** The feed is throttling us */
+export class RateLimitError extends TransitError {
+  constructor(message: string) {
+    super('rateLimited', message, true);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** The response could not be decoded */
+export class ParseError extends TransitError {
+  constructor(message: string) {
+    super('parse', message, false);
+    this.name = 'ParseError';
+  }
+}
+
+export const isTransitError = (error: unknown): error is TransitError =>
+  error instanceof TransitError;
+
+/**
+ * Short, user-facing description of a fetch failure
+ * @param error Anything thrown by a fetch function
+ */
+export const describeTransitError = (error: unknown): string => {
+  if (!isTransitError(error)) return 'Something went wrong loading bus data';
+
+  switch (error.kind) {
+    case 'network':
+      return typeof navigator !== 'undefined' && !navigator.onLine
+        ? "You're offline"
+        : "Can't reach the transit server";
+    case 'rateLimited':
+      return 'The transit feed is busy right now';
+    case 'feed':
+      return 'The transit feed reported an error';
+    case 'parse':
+      return 'The transit feed sent data we couldn\'t read';
+  }
+};
+
+interface RetryOptions {
+  retries?: number;
+  /** Delay before the first retry, doubled on each attempt */
+  baseDelayMs?: number;
+}
+
+/**
+ * Run a request, retrying with exponential backoff while it fails with a retryable TransitError
+ * @param request The request to run
+ * @param options Retry count and base delay
+ */
+export const withRetry = async <T>(
+  request: () => Promise<T>,
+  { retries = 3, baseDelayMs = 1000 }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!isTransitError(error) || !error.shouldRetry || attempt >= retries) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, baseDelayMs * 2 ** attempt));
+    }
+  }
+};
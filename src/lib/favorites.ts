@@ -0,0 +1,88 @@
+import { Stop } from '@/types/transit';
+import { SyncedSection } from '@/lib/preferenceSync';
+
+// Starred stops and routes.
+// Kept in localStorage per transit provider (stop and route tags only mean
+// something within one provider) and optionally synced across devices.
+// Stops are identified by location, like everywhere stops from several routes
+// are merged, so starring a shared stop covers every route serving it.
+
+export interface FavoriteStop {
+  /** Location key (see getStopLocationKey) */
+  key: string;
+  /** Public stop id, for opening the stop */
+  stopId: string;
+  title: string;
+}
+
+export interface FavoritesData {
+  stops: FavoriteStop[];
+  /** Route tags */
+  routes: string[];
+}
+
+export type Favorites = SyncedSection<FavoritesData>;
+
+const storageKey = (providerId: string) => `topperbus:favorites:${providerId}`;
+
+/** Sync section name for a provider's favorites */
+export const favoritesSection = (providerId: string) => `favorites:${providerId}`;
+
+/** Identity shared by the stops of different routes at the same spot (~11m) */
+export const getStopLocationKey = (stop: { lat: number; lon: number }): string =>
+  `${stop.lat.toFixed(4)},${stop.lon.toFixed(4)}`;
+
+export const createFavorites = (): Favorites => ({ data: { stops: [], routes: [] }, updatedAt: 0 });
+
+export const isFavoriteStop = (favorites: Favorites, stop: Stop): boolean =>
+  favorites.data.stops.some(s => s.key === getStopLocationKey(stop));
+
+export const isFavoriteRoute = (favorites: Favorites, routeTag: string): boolean =>
+  favorites.data.routes.includes(routeTag);
+
+/** Star or unstar a stop */
+export const toggleFavoriteStop = (favorites: Favorites, stop: Stop, now: number = Date.now()): Favorites => {
+  const key = getStopLocationKey(stop);
+  const stops = isFavoriteStop(favorites, stop)
+    ? favorites.data.stops.filter(s => s.key !== key)
+    : [...favorites.data.stops, { key, stopId: stop.stopId, title: stop.shortTitle || stop.title }];
+  return { data: { ...favorites.data, stops }, updatedAt: now };
+};
+
+/** Unstar a stop by its location key */
+export const removeFavoriteStop = (favorites: Favorites, key: string, now: number = Date.now()): Favorites => ({
+  data: { ...favorites.data, stops: favorites.data.stops.filter(s => s.key !== key) },
+  updatedAt: now,
+});
+
+/** Star or unstar a route */
+export const toggleFavoriteRoute = (favorites: Favorites, routeTag: string, now: number = Date.now()): Favorites => {
+  const routes = isFavoriteRoute(favorites, routeTag)
+    ? favorites.data.routes.filter(tag => tag !== routeTag)
+    : [...favorites.data.routes, routeTag];
+  return { data: { ...favorites.data, routes }, updatedAt: now };
+};
+
+/** Everything starred on either device, for joining a sync code (the synced order first) */
+export const mergeFavorites = (local: FavoritesData, remote: FavoritesData): FavoritesData => ({
+  stops: [...remote.stops, ...local.stops.filter(s => !remote.stops.some(r => r.key === s.key))],
+  routes: [...remote.routes, ...local.routes.filter(tag => !remote.routes.includes(tag))],
+});
+
+export const loadFavorites = (providerId: string): Favorites => {
+  try {
+    const stored = localStorage.getItem(storageKey(providerId));
+    return stored ? JSON.parse(stored) : createFavorites();
+  } catch (error) {
+    console.warn('Favorites unavailable:', error);
+    return createFavorites();
+  }
+};
+
+export const saveFavorites = (providerId: string, favorites: Favorites) => {
+  try {
+    localStorage.setItem(storageKey(providerId), JSON.stringify(favorites));
+  } catch (error) {
+    console.warn('Could not save favorites:', error);
+  }
+};
@@ -0,0 +1,159 @@
+// Geometry helpers for points and route polylines
+// Campus-scale distances are small enough that segment projection can use a
+// flat (equirectangular) approximation around each segment.
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+export interface PolylineProjection {
+  lat: number;
+  lon: number;
+  /** Index of the segment the point projects onto (segment i runs from path[i] to path[i + 1]) */
+  segmentIndex: number;
+  /** Distance from the start of the polyline to the projected point, in meters */
+  distanceAlong: number;
+  /** Distance from the original point to the polyline, in meters */
+  distanceFromPath: number;
+  /** Bearing of the matched segment, in degrees clockwise from north */
+  bearing: number;
+}
+
+export interface PolylinePoint {
+  lat: number;
+  lon: number;
+  /** Bearing of the polyline at this point, in degrees clockwise from north */
+  bearing: number;
+}
+
+const EARTH_RADIUS_M = 6371000;
+// With a heading hint, a segment running the opposite way counts as this much further away
+const OPPOSING_HEADING_PENALTY_M = 30;
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+/** Great-circle distance between two points, in meters */
+export const distanceMeters = (a: LatLon, b: LatLon): number => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return EARTH_RADIUS_M * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+/** Initial bearing from one point to another, in degrees clockwise from north (0-360) */
+export const bearingDegrees = (from: LatLon, to: LatLon): number => {
+  const lat1 = toRad(from.lat);
+  const lat2 = toRad(to.lat);
+  const dLon = toRad(to.lon - from.lon);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+};
+
+/** Smallest absolute difference between two bearings, in degrees (0-180) */
+export const bearingDifference = (a: number, b: number): number => {
+  const diff = Math.abs(((a - b) % 360 + 360) % 360);
+  return diff > 180 ? 360 - diff : diff;
+};
+
+/** Total length of a polyline, in meters */
+export const polylineLength = (path: LatLon[]): number => {
+  let length = 0;
+  for (let i = 1; i < path.length; i++) {
+    length += distanceMeters(path[i - 1], path[i]);
+  }
+  return length;
+};
+
+/**
+ * Project a point onto the closest spot of a polyline
+ * @param point The point to project
+ * @param path The polyline (at least one point)
+ * @param heading Optional direction of travel; prefers segments running the same way where a path doubles back
+ * @returns The projection, or null for an empty path
+ */
+export const projectOntoPolyline = (point: LatLon, path: LatLon[], heading?: number): PolylineProjection | null => {
+  if (path.length === 0) return null;
+  if (path.length === 1) {
+    return {
+      lat: path[0].lat,
+      lon: path[0].lon,
+      segmentIndex: 0,
+      distanceAlong: 0,
+      distanceFromPath: distanceMeters(point, path[0]),
+      bearing: 0,
+    };
+  }
+
+  let best: PolylineProjection | null = null;
+  let bestScore = Infinity;
+  let distanceBefore = 0;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const a = path[i];
+    const b = path[i + 1];
+    const segmentLength = distanceMeters(a, b);
+
+    // Local flat projection with the segment start as origin
+    const metersPerLon = Math.cos(toRad(a.lat));
+    const bx = (b.lon - a.lon) * metersPerLon;
+    const by = b.lat - a.lat;
+    const px = (point.lon - a.lon) * metersPerLon;
+    const py = point.lat - a.lat;
+    const lengthSq = bx * bx + by * by;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (px * bx + py * by) / lengthSq));
+
+    const projected = { lat: a.lat + (b.lat - a.lat) * t, lon: a.lon + (b.lon - a.lon) * t };
+    const distanceFromPath = distanceMeters(point, projected);
+    const bearing = bearingDegrees(a, b);
+    const score = heading === undefined
+      ? distanceFromPath
+      : distanceFromPath + OPPOSING_HEADING_PENALTY_M * bearingDifference(heading, bearing) / 180;
+
+    if (score < bestScore) {
+      bestScore = score;
+      best = {
+        ...projected,
+        segmentIndex: i,
+        distanceAlong: distanceBefore + segmentLength * t,
+        distanceFromPath,
+        bearing,
+      };
+    }
+    distanceBefore += segmentLength;
+  }
+
+  return best;
+};
+
+/**
+ * The point a given distance along a polyline
+ * Distances outside the polyline are clamped to its ends.
+ * @param path The polyline (at least one point)
+ * @param distanceAlong Meters from the start of the polyline
+ */
+export const pointAlongPolyline = (path: LatLon[], distanceAlong: number): PolylinePoint | null => {
+  if (path.length === 0) return null;
+  if (path.length === 1) return { lat: path[0].lat, lon: path[0].lon, bearing: 0 };
+
+  let remaining = Math.max(0, distanceAlong);
+  for (let i = 0; i < path.length - 1; i++) {
+    const a = path[i];
+    const b = path[i + 1];
+    const segmentLength = distanceMeters(a, b);
+    if (remaining <= segmentLength || i === path.length - 2) {
+      const t = segmentLength === 0 ? 0 : Math.min(1, remaining / segmentLength);
+      return {
+        lat: a.lat + (b.lat - a.lat) * t,
+        lon: a.lon + (b.lon - a.lon) * t,
+        bearing: bearingDegrees(a, b),
+      };
+    }
+    remaining -= segmentLength;
+  }
+  return null;
+};
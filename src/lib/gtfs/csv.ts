@@ -0,0 +1,65 @@
+// RFC 4180 CSV parsing for GTFS text files
+
+/**
+ * Parse CSV text into one record per row, keyed by the header row
+ * Handles quoted fields, escaped quotes, CRLF line endings and a leading BOM.
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  if (rows.length === 0) return [];
+
+  const headers = rows[0].map(h => h.trim());
+  return rows
+    .slice(1)
+    .filter(r => r.length > 1 || r[0] !== '')
+    .map(r => {
+      const record: Record<string, string> = {};
+      headers.forEach((header, index) => {
+        record[header] = (r[index] ?? '').trim();
+      });
+      return record;
+    });
+};
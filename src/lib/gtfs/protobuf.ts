@@ -0,0 +1,100 @@
+// Minimal protocol buffers wire-format reader, enough to decode GTFS-Realtime.
+// Spec: https://protobuf.dev/programming-guides/encoding/
+
+export const WIRE_VARINT = 0;
+export const WIRE_FIXED64 = 1;
+export const WIRE_LENGTH_DELIMITED = 2;
+export const WIRE_FIXED32 = 5;
+
+export interface ProtoField {
+  fieldNumber: number;
+  wireType: number;
+}
+
+export class ProtoReader {
+  private view: DataView;
+  private pos: number;
+  private end: number;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.pos = 0;
+    this.end = bytes.byteLength;
+  }
+
+  hasMore(): boolean {
+    return this.pos < this.end;
+  }
+
+  readTag(): ProtoField {
+    const tag = this.readVarint();
+    return { fieldNumber: Math.floor(tag / 8), wireType: tag % 8 };
+  }
+
+  /** Unsigned varint. Uses float arithmetic so 64-bit timestamps survive (exact up to 2^53). */
+  readVarint(): number {
+    let result = 0;
+    let multiplier = 1;
+    while (this.pos < this.end) {
+      const byte = this.bytes[this.pos++];
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) return result;
+      multiplier *= 128;
+    }
+    throw new Error('Invalid protobuf: truncated varint');
+  }
+
+  readBool(): boolean {
+    return this.readVarint() !== 0;
+  }
+
+  readFloat(): number {
+    const value = this.view.getFloat32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  readDouble(): number {
+    const value = this.view.getFloat64(this.pos, true);
+    this.pos += 8;
+    return value;
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readVarint();
+    if (this.pos + length > this.end) {
+      throw new Error('Invalid protobuf: length exceeds buffer');
+    }
+    const bytes = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return bytes;
+  }
+
+  readString(): string {
+    return new TextDecoder().decode(this.readBytes());
+  }
+
+  /** Reader over an embedded message */
+  readMessage(): ProtoReader {
+    return new ProtoReader(this.readBytes());
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.readVarint();
+        break;
+      case WIRE_FIXED64:
+        this.pos += 8;
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        this.readBytes();
+        break;
+      case WIRE_FIXED32:
+        this.pos += 4;
+        break;
+      default:
+        throw new Error(`Invalid protobuf: unsupported wire type ${wireType}`);
+    }
+  }
+}
@@ -0,0 +1,296 @@
+import { Route, VehicleLocation, StopPredictions, Prediction } from '@/types/transit';
+import { ProtoReader, WIRE_FIXED32, WIRE_LENGTH_DELIMITED, WIRE_VARINT } from './protobuf';
+import { getGtfsDirectionTagPrefix } from './static';
+
+// GTFS-Realtime decoding
+// Spec: https://gtfs.org/realtime/reference/
+// Only the VehiclePositions and TripUpdates fields the app uses are decoded;
+// everything else is skipped.
+
+interface RtTripDescriptor {
+  tripId: string;
+  routeId: string;
+  directionId: string;
+}
+
+interface RtVehicleDescriptor {
+  id: string;
+  label: string;
+}
+
+interface RtPosition {
+  latitude: number;
+  longitude: number;
+  bearing: number;
+  /** Meters per second */
+  speed: number;
+}
+
+interface RtVehiclePosition {
+  trip: RtTripDescriptor | null;
+  vehicle: RtVehicleDescriptor | null;
+  position: RtPosition | null;
+  timestamp: number;
+}
+
+interface RtStopTimeUpdate {
+  stopId: string;
+  arrivalTime: number | null;
+  departureTime: number | null;
+}
+
+interface RtTripUpdate {
+  trip: RtTripDescriptor | null;
+  vehicle: RtVehicleDescriptor | null;
+  stopTimeUpdates: RtStopTimeUpdate[];
+}
+
+interface RtFeedEntity {
+  id: string;
+  vehicle: RtVehiclePosition | null;
+  tripUpdate: RtTripUpdate | null;
+}
+
+export interface RtFeed {
+  /** Feed creation time, POSIX seconds */
+  timestamp: number;
+  entities: RtFeedEntity[];
+}
+
+export interface RealtimeContext {
+  /** Route configuration, used for titles and direction tags */
+  routes: Route[];
+  /** Reference time in milliseconds (defaults to Date.now()) */
+  now?: number;
+}
+
+const decodeTripDescriptor = (reader: ProtoReader): RtTripDescriptor => {
+  const trip: RtTripDescriptor = { tripId: '', routeId: '', directionId: '' };
+  while (reader.hasMore()) {
+    const { fieldNumber, wireType } = reader.readTag();
+    if (fieldNumber === 1 && wireType === WIRE_LENGTH_DELIMITED) trip.tripId = reader.readString();
+    else if (fieldNumber === 5 && wireType === WIRE_LENGTH_DELIMITED) trip.routeId = reader.readString();
+    else if (fieldNumber === 6 && wireType === WIRE_VARINT) trip.directionId = String(reader.readVarint());
+    else reader.skip(wireType);
+  }
+  return trip;
+};
+
+const decodeVehicleDescriptor = (reader: ProtoReader): RtVehicleDescriptor => {
+  const vehicle: RtVehicleDescriptor = { id: '', label: '' };
+  while (reader.hasMore()) {
+    const { fieldNumber, wireType } = reader.readTag();
+    if (fieldNumber === 1 && wireType === WIRE_LENGTH_DELIMITED) vehicle.id = reader.readString();
+    else if (fieldNumber === 2 && wireType === WIRE_LENGTH_DELIMITED) vehicle.label = reader.readString();
+    else reader.skip(wireType);
+  }
+  return vehicle;
+};
+
+const decodePosition = (reader: ProtoReader): RtPosition => {
+  const position: RtPosition = { latitude: 0, longitude: 0, bearing: 0, speed: 0 };
+  while (reader.hasMore()) {
+    const { fieldNumber, wireType } = reader.readTag();
+    if (fieldNumber === 1 && wireType === WIRE_FIXED32) position.latitude = reader.readFloat();
+    else if (fieldNumber === 2 && wireType === WIRE_FIXED32) position.longitude = reader.readFloat();
+    else if (fieldNumber === 3 && wireType === WIRE_FIXED32) position.bearing = reader.readFloat();
+    else if (fieldNumber === 5 && wireType === WIRE_FIXED32) position.speed = reader.readFloat();
+    else reader.skip(wireType);
+  }
+  return position;
+};
+
+const decodeVehiclePosition = (reader: ProtoReader): RtVehiclePosition => {
+  const result: RtVehiclePosition = { trip: null, vehicle: null, position: null, timestamp: 0 };
+  while (reader.hasMore()) {
+    const { fieldNumber, wireType } = reader.readTag();
+    if (fieldNumber === 1 && wireType === WIRE_LENGTH_DELIMITED) result.trip = decodeTripDescriptor(reader.readMessage());
+    else if (fieldNumber === 2 && wireType === WIRE_LENGTH_DELIMITED) result.position = decodePosition(reader.readMessage());
+    else if (fieldNumber === 5 && wireType === WIRE_VARINT) result.timestamp = reader.readVarint();
+    else if (fieldNumber === 8 && wireType === WIRE_LENGTH_DELIMITED) result.vehicle = decodeVehicleDescriptor(reader.readMessage());
+    else reader.skip(wireType);
+  }
+  return result;
+};
+
+/** StopTimeEvent: only the absolute time (field 2) is used */
+const decodeStopTimeEvent = (reader: ProtoReader): number | null => {
+  let time: number | null = null;
+  while (reader.hasMore()) {
+    const { fieldNumber, wireType } = reader.readTag();
+    if (fieldNumber === 2 && wireType === WIRE_VARINT) time = reader.readVarint();
+    else reader.skip(wireType);
+  }
+  return time;
+};
+
+const decodeStopTimeUpdate = (reader: ProtoReader): RtStopTimeUpdate => {
+  const update: RtStopTimeUpdate = { stopId: '', arrivalTime: null, departureTime: null };
+  while (reader.hasMore()) {
+    const { fieldNumber, wireType } = reader.readTag();
+    if (fieldNumber === 2 && wireType === WIRE_LENGTH_DELIMITED) update.arrivalTime = decodeStopTimeEvent(reader.readMessage());
+    else if (fieldNumber === 3 && wireType === WIRE_LENGTH_DELIMITED) update.departureTime = decodeStopTimeEvent(reader.readMessage());
+    else if (fieldNumber === 4 && wireType === WIRE_LENGTH_DELIMITED) update.stopId = reader.readString();
+    else reader.skip(wireType);
+  }
+  return update;
+};
+
+const decodeTripUpdate = (reader: ProtoReader): RtTripUpdate => {
+  const result: RtTripUpdate = { trip: null, vehicle: null, stopTimeUpdates: [] };
+  while (reader.hasMore()) {
+    const { fieldNumber, wireType } = reader.readTag();
+    if (fieldNumber === 1 && wireType === WIRE_LENGTH_DELIMITED) result.trip = decodeTripDescriptor(reader.readMessage());
+    else if (fieldNumber === 2 && wireType === WIRE_LENGTH_DELIMITED) result.stopTimeUpdates.push(decodeStopTimeUpdate(reader.readMessage()));
+    else if (fieldNumber === 3 && wireType === WIRE_LENGTH_DELIMITED) result.vehicle = decodeVehicleDescriptor(reader.readMessage());
+    else reader.skip(wireType);
+  }
+  return result;
+};
+
+const decodeEntity = (reader: ProtoReader): RtFeedEntity | null => {
+  const entity: RtFeedEntity = { id: '', vehicle: null, tripUpdate: null };
+  let isDeleted = false;
+  while (reader.hasMore()) {
+    const { fieldNumber, wireType } = reader.readTag();
+    if (fieldNumber === 1 && wireType === WIRE_LENGTH_DELIMITED) entity.id = reader.readString();
+    else if (fieldNumber === 2 && wireType === WIRE_VARINT) isDeleted = reader.readBool();
+    else if (fieldNumber === 3 && wireType === WIRE_LENGTH_DELIMITED) entity.tripUpdate = decodeTripUpdate(reader.readMessage());
+    else if (fieldNumber === 4 && wireType === WIRE_LENGTH_DELIMITED) entity.vehicle = decodeVehiclePosition(reader.readMessage());
+    else reader.skip(wireType);
+  }
+  return isDeleted ? null : entity;
+};
+
+/**
+ * Decode a GTFS-Realtime FeedMessage
+ * @param buffer Raw protobuf bytes
+ */
+export const decodeFeedMessage = (buffer: ArrayBuffer | Uint8Array): RtFeed => {
+  const reader = new ProtoReader(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer));
+  const feed: RtFeed = { timestamp: 0, entities: [] };
+
+  while (reader.hasMore()) {
+    const { fieldNumber, wireType } = reader.readTag();
+    if (fieldNumber === 1 && wireType === WIRE_LENGTH_DELIMITED) {
+      const header = reader.readMessage();
+      while (header.hasMore()) {
+        const field = header.readTag();
+        if (field.fieldNumber === 3 && field.wireType === WIRE_VARINT) feed.timestamp = header.readVarint();
+        else header.skip(field.wireType);
+      }
+    } else if (fieldNumber === 2 && wireType === WIRE_LENGTH_DELIMITED) {
+      const entity = decodeEntity(reader.readMessage());
+      if (entity) feed.entities.push(entity);
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return feed;
+};
+
+const findDirection = (route: Route | undefined, trip: RtTripDescriptor | null) => {
+  if (!route || !trip || trip.directionId === '') return undefined;
+  const prefix = getGtfsDirectionTagPrefix(route.tag, trip.directionId);
+  const matching = route.directions.filter(d => d.tag.startsWith(prefix));
+  return matching.find(d => d.useForUI) || matching[0];
+};
+
+/**
+ * Convert a VehiclePositions feed into vehicle locations
+ * @param feed Decoded feed
+ * @param context Route configuration and reference time
+ */
+export const toVehicleLocations = (feed: RtFeed, context: RealtimeContext): VehicleLocation[] => {
+  const nowSecs = Math.floor((context.now ?? Date.now()) / 1000);
+  const vehicles: VehicleLocation[] = [];
+
+  feed.entities.forEach(entity => {
+    const vp = entity.vehicle;
+    if (!vp || !vp.position) return;
+
+    const routeTag = vp.trip?.routeId || '';
+    const route = context.routes.find(r => r.tag === routeTag);
+    const reportedAt = vp.timestamp || feed.timestamp;
+
+    vehicles.push({
+      id: vp.vehicle?.id || vp.vehicle?.label || entity.id,
+      routeTag,
+      dirTag: findDirection(route, vp.trip)?.tag || '',
+      lat: vp.position.latitude,
+      lon: vp.position.longitude,
+      heading: vp.position.bearing,
+      speedKmHr: vp.position.speed * 3.6,
+      secsSinceReport: reportedAt ? Math.max(0, nowSecs - reportedAt) : 0,
+    });
+  });
+
+  return vehicles;
+};
+
+/**
+ * Convert a TripUpdates feed into per-stop, per-route predictions
+ * Past arrivals are dropped and each direction's predictions are sorted soonest first.
+ * @param feed Decoded feed
+ * @param context Route configuration and reference time
+ */
+export const toStopPredictions = (feed: RtFeed, context: RealtimeContext): StopPredictions[] => {
+  const nowMs = context.now ?? Date.now();
+  const byStopRoute = new Map<string, StopPredictions>();
+
+  feed.entities.forEach(entity => {
+    const tu = entity.tripUpdate;
+    const trip = tu?.trip;
+    if (!tu || !trip) return;
+
+    const route = context.routes.find(r => r.tag === trip.routeId);
+    const direction = findDirection(route, trip);
+
+    tu.stopTimeUpdates.forEach(update => {
+      const time = update.arrivalTime ?? update.departureTime;
+      if (time === null || !update.stopId) return;
+
+      const epochTime = time * 1000;
+      const seconds = Math.round((epochTime - nowMs) / 1000);
+      if (seconds < 0) return;
+
+      const key = `${update.stopId}|${trip.routeId}`;
+      let stopPreds = byStopRoute.get(key);
+      if (!stopPreds) {
+        const stop = route?.stops.find(s => s.tag === update.stopId);
+        stopPreds = {
+          stopTag: update.stopId,
+          stopTitle: stop?.title || update.stopId,
+          routeTag: trip.routeId,
+          routeTitle: route?.title || trip.routeId,
+          directions: [],
+        };
+        byStopRoute.set(key, stopPreds);
+      }
+
+      const directionTitle = direction?.title || '';
+      let predDirection = stopPreds.directions.find(d => d.title === directionTitle);
+      if (!predDirection) {
+        predDirection = { title: directionTitle, predictions: [] };
+        stopPreds.directions.push(predDirection);
+      }
+
+      const prediction: Prediction = {
+        epochTime,
+        seconds,
+        minutes: Math.floor(seconds / 60),
+        isDeparture: update.arrivalTime === null,
+        affectedByLayover: false,
+        dirTag: direction?.tag || '',
+        vehicle: tu.vehicle?.id || tu.vehicle?.label || '',
+        block: '',
+      };
+      predDirection.predictions.push(prediction);
+    });
+  });
+
+  const result = Array.from(byStopRoute.values());
+  result.forEach(sp => sp.directions.forEach(d => d.predictions.sort((a, b) => a.epochTime - b.epochTime)));
+  return result;
+};
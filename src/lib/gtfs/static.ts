@@ -0,0 +1,251 @@
+import { Route, Stop, Direction, PathPoint } from '@/types/transit';
+import { unzipTextFiles } from './zip';
+import { parseCsv } from './csv';
+
+// GTFS static feed importer
+// Spec: https://gtfs.org/schedule/reference/
+// Converts a feed zip into the same Route/Stop/Direction/PathPoint shapes the
+// NextBus provider produces, so the rest of the app can't tell the difference.
+
+const GTFS_FILES = ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt', 'shapes.txt', 'calendar.txt'];
+
+type CsvRecord = Record<string, string>;
+
+export interface GtfsCalendar {
+  serviceId: string;
+  /** Service flags indexed by Date.getDay() (0 = Sunday) */
+  days: boolean[];
+  /** Inclusive start date, YYYYMMDD */
+  startDate: string;
+  /** Inclusive end date, YYYYMMDD */
+  endDate: string;
+}
+
+export interface GtfsImportOptions {
+  /** Only include trips whose service runs on this date (defaults to every trip in the feed) */
+  serviceDate?: Date;
+}
+
+interface TripPattern {
+  directionId: string;
+  headsign: string;
+  stopIds: string[];
+  tripCount: number;
+}
+
+const CALENDAR_DAY_COLUMNS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const toGtfsDate = (date: Date): string =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+export const parseCalendar = (records: CsvRecord[]): GtfsCalendar[] =>
+  records.map(r => ({
+    serviceId: r.service_id,
+    days: CALENDAR_DAY_COLUMNS.map(day => r[day] === '1'),
+    startDate: r.start_date,
+    endDate: r.end_date,
+  }));
+
+/**
+ * Get the service IDs that run on a given date
+ * @param calendars Parsed calendar.txt entries
+ * @param date The service date
+ */
+export const getActiveServiceIds = (calendars: GtfsCalendar[], date: Date): Set<string> => {
+  const dateStr = toGtfsDate(date);
+  const day = date.getDay();
+  return new Set(
+    calendars
+      .filter(c => c.days[day] && dateStr >= c.startDate && dateStr <= c.endDate)
+      .map(c => c.serviceId)
+  );
+};
+
+/**
+ * Direction tags produced by the importer start with this prefix, which lets
+ * realtime feeds (which only carry route_id + direction_id) find them again.
+ */
+export const getGtfsDirectionTagPrefix = (routeId: string, directionId: string): string =>
+  `${routeId}_${directionId || 'x'}_`;
+
+const toStop = (record: CsvRecord): Stop => ({
+  tag: record.stop_id,
+  title: record.stop_name || record.stop_id,
+  shortTitle: undefined,
+  lat: parseFloat(record.stop_lat || '0'),
+  lon: parseFloat(record.stop_lon || '0'),
+  stopId: record.stop_code || record.stop_id,
+});
+
+const getDirectionName = (directionId: string): string => {
+  if (directionId === '0') return 'Outbound';
+  if (directionId === '1') return 'Inbound';
+  return '';
+};
+
+const buildShapes = (records: CsvRecord[]): Map<string, PathPoint[]> => {
+  const grouped = new Map<string, { seq: number; point: PathPoint }[]>();
+  records.forEach(r => {
+    const points = grouped.get(r.shape_id) || [];
+    points.push({
+      seq: parseInt(r.shape_pt_sequence || '0', 10),
+      point: { lat: parseFloat(r.shape_pt_lat || '0'), lon: parseFloat(r.shape_pt_lon || '0') },
+    });
+    grouped.set(r.shape_id, points);
+  });
+
+  const shapes = new Map<string, PathPoint[]>();
+  grouped.forEach((points, shapeId) => {
+    shapes.set(shapeId, points.sort((a, b) => a.seq - b.seq).map(p => p.point));
+  });
+  return shapes;
+};
+
+const buildTripStopSequences = (records: CsvRecord[], tripIds: Set<string>): Map<string, string[]> => {
+  const grouped = new Map<string, { seq: number; stopId: string }[]>();
+  records.forEach(r => {
+    if (!tripIds.has(r.trip_id)) return;
+    const stops = grouped.get(r.trip_id) || [];
+    stops.push({ seq: parseInt(r.stop_sequence || '0', 10), stopId: r.stop_id });
+    grouped.set(r.trip_id, stops);
+  });
+
+  const sequences = new Map<string, string[]>();
+  grouped.forEach((stops, tripId) => {
+    sequences.set(tripId, stops.sort((a, b) => a.seq - b.seq).map(s => s.stopId));
+  });
+  return sequences;
+};
+
+const computeBounds = (stops: Stop[], paths: PathPoint[][]) => {
+  const points: PathPoint[] = [...stops, ...paths.flat()];
+  if (points.length === 0) {
+    return { latMin: 0, latMax: 0, lonMin: 0, lonMax: 0 };
+  }
+  // Reduce rather than spread: shapes.txt can hold far more points than Math.min accepts as arguments
+  return points.reduce((bounds, p) => ({
+    latMin: Math.min(bounds.latMin, p.lat),
+    latMax: Math.max(bounds.latMax, p.lat),
+    lonMin: Math.min(bounds.lonMin, p.lon),
+    lonMax: Math.max(bounds.lonMax, p.lon),
+  }), { latMin: Infinity, latMax: -Infinity, lonMin: Infinity, lonMax: -Infinity });
+};
+
+/**
+ * Build routes from already-parsed GTFS tables
+ * Each distinct stop pattern (direction + headsign + stop list) becomes a
+ * Direction; the most frequent pattern per direction_id is marked useForUI.
+ */
+export const buildRoutesFromGtfs = (
+  tables: Record<string, CsvRecord[]>,
+  options: GtfsImportOptions = {}
+): Route[] => {
+  const stopsById = new Map<string, Stop>();
+  (tables['stops.txt'] || []).forEach(r => stopsById.set(r.stop_id, toStop(r)));
+
+  let trips = tables['trips.txt'] || [];
+  if (options.serviceDate && tables['calendar.txt']) {
+    const activeServices = getActiveServiceIds(parseCalendar(tables['calendar.txt']), options.serviceDate);
+    trips = trips.filter(t => activeServices.has(t.service_id));
+  }
+
+  const tripSequences = buildTripStopSequences(
+    tables['stop_times.txt'] || [],
+    new Set(trips.map(t => t.trip_id))
+  );
+  const shapes = buildShapes(tables['shapes.txt'] || []);
+
+  const routes: Route[] = [];
+
+  (tables['routes.txt'] || []).forEach(routeRecord => {
+    const routeId = routeRecord.route_id;
+    const routeTrips = trips.filter(t => t.route_id === routeId);
+    if (routeTrips.length === 0) return;
+
+    // Group trips into unique stop patterns
+    const patterns = new Map<string, TripPattern>();
+    const shapeIds = new Set<string>();
+    routeTrips.forEach(trip => {
+      const stopIds = tripSequences.get(trip.trip_id) || [];
+      if (stopIds.length === 0) return;
+      if (trip.shape_id) shapeIds.add(trip.shape_id);
+
+      const directionId = trip.direction_id || '';
+      const headsign = trip.trip_headsign || '';
+      const key = `${directionId}|${headsign}|${stopIds.join(',')}`;
+      const existing = patterns.get(key);
+      if (existing) {
+        existing.tripCount++;
+      } else {
+        patterns.set(key, { directionId, headsign, stopIds, tripCount: 1 });
+      }
+    });
+
+    const sortedPatterns = Array.from(patterns.values()).sort((a, b) => b.tripCount - a.tripCount);
+    const primaryDirections = new Set<string>();
+    const directions: Direction[] = sortedPatterns.map((pattern, index) => {
+      const useForUI = !primaryDirections.has(pattern.directionId);
+      primaryDirections.add(pattern.directionId);
+      const lastStop = stopsById.get(pattern.stopIds[pattern.stopIds.length - 1]);
+      return {
+        tag: `${getGtfsDirectionTagPrefix(routeId, pattern.directionId)}${index}`,
+        title: pattern.headsign || (lastStop ? `To ${lastStop.title}` : routeRecord.route_long_name),
+        name: getDirectionName(pattern.directionId),
+        useForUI,
+        stops: pattern.stopIds,
+      };
+    });
+
+    const routeStopIds = new Set(sortedPatterns.flatMap(p => p.stopIds));
+    const stops = Array.from(routeStopIds)
+      .map(id => stopsById.get(id))
+      .filter((s): s is Stop => !!s);
+
+    // Prefer shapes.txt; fall back to straight lines between stops
+    let paths: PathPoint[][] = Array.from(shapeIds)
+      .map(id => shapes.get(id) || [])
+      .filter(path => path.length > 0);
+    if (paths.length === 0) {
+      paths = sortedPatterns.map(p =>
+        p.stopIds
+          .map(id => stopsById.get(id))
+          .filter((s): s is Stop => !!s)
+          .map(s => ({ lat: s.lat, lon: s.lon }))
+      );
+    }
+
+    routes.push({
+      tag: routeId,
+      title: routeRecord.route_long_name || routeRecord.route_short_name || routeId,
+      color: routeRecord.route_color || '000000',
+      oppositeColor: routeRecord.route_text_color || 'ffffff',
+      ...computeBounds(stops, paths),
+      stops,
+      directions,
+      paths,
+    });
+  });
+
+  return routes;
+};
+
+/**
+ * Parse a GTFS static feed zip into routes
+ * @param buffer The raw feed zip
+ * @param options Import options (e.g. restrict to one service date)
+ */
+export const parseGtfsStatic = async (buffer: ArrayBuffer, options: GtfsImportOptions = {}): Promise<Route[]> => {
+  const files = await unzipTextFiles(buffer, GTFS_FILES);
+  const tables: Record<string, CsvRecord[]> = {};
+  files.forEach((text, name) => {
+    tables[name] = parseCsv(text);
+  });
+
+  for (const required of ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt']) {
+    if (!tables[required]) {
+      throw new Error(`GTFS feed is missing ${required}`);
+    }
+  }
+
+  return buildRoutesFromGtfs(tables, options);
+};
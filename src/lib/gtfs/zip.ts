@@ -0,0 +1,99 @@
+// Minimal ZIP reader for GTFS feeds.
+// Reads the central directory and inflates entries with the browser's
+// native DecompressionStream, so no extra dependency is needed.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // The EOCD record is at least 22 bytes and may be followed by a comment of up to 64 KB
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error('Invalid zip: end of central directory not found');
+};
+
+const readEntries = (buffer: ArrayBuffer): ZipEntry[] => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Invalid zip: corrupt central directory');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    entries.push({ name, method, compressedSize, localHeaderOffset });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<ArrayBuffer> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+};
+
+const extractEntry = async (buffer: ArrayBuffer, entry: ZipEntry): Promise<ArrayBuffer> => {
+  const view = new DataView(buffer);
+  const offset = entry.localHeaderOffset;
+  if (view.getUint32(offset, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Invalid zip: bad local header for ${entry.name}`);
+  }
+  const nameLength = view.getUint16(offset + 26, true);
+  const extraLength = view.getUint16(offset + 28, true);
+  const dataStart = offset + 30 + nameLength + extraLength;
+  const data = new Uint8Array(buffer, dataStart, entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) {
+    return data.slice().buffer;
+  }
+  if (entry.method === METHOD_DEFLATE) {
+    return inflateRaw(data);
+  }
+  throw new Error(`Unsupported zip compression method ${entry.method} for ${entry.name}`);
+};
+
+/**
+ * Extract text files from a zip archive
+ * @param buffer The raw zip bytes
+ * @param wanted File names to extract (matched on base name, so feeds zipped inside a folder still work)
+ * @returns Map of base file name to decoded UTF-8 contents
+ */
+export const unzipTextFiles = async (buffer: ArrayBuffer, wanted: string[]): Promise<Map<string, string>> => {
+  const decoder = new TextDecoder();
+  const files = new Map<string, string>();
+
+  for (const entry of readEntries(buffer)) {
+    const baseName = entry.name.split('/').pop() || '';
+    if (!wanted.includes(baseName) || files.has(baseName)) continue;
+    files.set(baseName, decoder.decode(await extractEntry(buffer, entry)));
+  }
+
+  return files;
+};
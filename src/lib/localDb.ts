@@ -0,0 +1,46 @@
+// Shared IndexedDB database for data kept across sessions
+// Each store is keyed by transit provider id, since stop and route tags are
+// only meaningful within one provider.
+
+const DB_NAME = 'topperbus';
+const DB_VERSION = 3;
+
+export type LocalStoreName = 'routeConfig' | 'travelTimes' | 'arrivalAlerts';
+const STORE_NAMES: LocalStoreName[] = ['routeConfig', 'travelTimes', 'arrivalAlerts'];
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      STORE_NAMES.forEach(name => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name);
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run a single request against one store
+ * @param storeName The object store
+ * @param mode Transaction mode
+ * @param run Builds the request from the store
+ */
+export const runStoreRequest = async <T>(
+  storeName: LocalStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
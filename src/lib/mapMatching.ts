@@ -0,0 +1,183 @@
+import { Route, Direction, Stop, VehicleLocation } from '@/types/transit';
+import { LatLon, distanceMeters, polylineLength, projectOntoPolyline } from '@/lib/geo';
+
+// Map-matching: where along its direction a vehicle is.
+// Each direction gets one polyline through its stops in order, following the
+// route paths between consecutive stops where they can be matched (straight
+// lines otherwise). A vehicle is projected onto that polyline, which gives a
+// distance along the route and, from the stops' own distances, its previous
+// and next stop. Unlike "closest stop", this stays right on loops and between
+// two nearby stops.
+
+// A stop further than this from every path is joined with a straight line
+const MAX_STOP_SNAP_DISTANCE_M = 40;
+// Within this distance along the route a vehicle counts as at the stop
+export const AT_STOP_RADIUS_M = 30;
+// Vehicles further than this from their direction's polyline aren't matched
+const MAX_VEHICLE_MATCH_DISTANCE_M = 150;
+// Below this speed the reported heading is unreliable
+const MIN_HEADING_SPEED_KMHR = 3;
+
+export interface DirectionGeometry {
+  routeTag: string;
+  dirTag: string;
+  path: LatLon[];
+  /** Total polyline length in meters */
+  length: number;
+  /** The direction's stops, in order */
+  stops: Stop[];
+  /** Meters along the polyline of each entry in `stops` */
+  stopDistances: number[];
+  /** The direction starts and ends at the same place */
+  isLoop: boolean;
+}
+
+export interface VehicleProgress {
+  geometry: DirectionGeometry;
+  /** Meters along the direction's polyline */
+  distanceAlong: number;
+  /** How far the report is from the polyline, in meters */
+  distanceFromPath: number;
+  /** 0-1 share of the direction already travelled */
+  progress: number;
+  /** The stop the vehicle is at, if any */
+  atStop: Stop | null;
+  /** Index into `geometry.stops` of `atStop` (or -1) */
+  atStopIndex: number;
+  previousStop: Stop | null;
+  previousStopIndex: number;
+  nextStop: Stop | null;
+  /** Index into `geometry.stops` of `nextStop` (or -1 past the last stop) */
+  nextStopIndex: number;
+  /** Meters along the route to the next stop */
+  distanceToNextStop: number | null;
+}
+
+// Route objects are shared and immutable, so geometry is computed once per route
+const geometryCache = new WeakMap<Route, Map<string, DirectionGeometry | null>>();
+
+// The stretch of a route path between two stops, or null if no path covers both
+const pathBetweenStops = (route: Route, from: Stop, to: Stop): LatLon[] | null => {
+  let best: LatLon[] | null = null;
+  let bestLength = Infinity;
+
+  // Feeds don't always draw paths in travel order, so try both ways
+  const candidates = route.paths.flatMap(path => [path, [...path].reverse()]);
+
+  for (const path of candidates) {
+    const start = projectOntoPolyline(from, path);
+    if (!start || start.distanceFromPath > MAX_STOP_SNAP_DISTANCE_M) continue;
+
+    // Only look ahead of the first stop, so a closed loop doesn't match its own start
+    const ahead: LatLon[] = [{ lat: start.lat, lon: start.lon }, ...path.slice(start.segmentIndex + 1)];
+    const end = projectOntoPolyline(to, ahead);
+    if (!end || end.distanceFromPath > MAX_STOP_SNAP_DISTANCE_M) continue;
+
+    if (end.distanceAlong < bestLength) {
+      bestLength = end.distanceAlong;
+      best = [...ahead.slice(0, end.segmentIndex + 1), { lat: end.lat, lon: end.lon }];
+    }
+  }
+
+  return best;
+};
+
+const buildDirectionGeometry = (route: Route, direction: Direction): DirectionGeometry | null => {
+  const stops = direction.stops
+    .map(tag => route.stops.find(s => s.tag === tag))
+    .filter((stop): stop is Stop => !!stop);
+  if (stops.length < 2) return null;
+
+  const path: LatLon[] = [{ lat: stops[0].lat, lon: stops[0].lon }];
+  const stopDistances = [0];
+  let length = 0;
+
+  for (let i = 1; i < stops.length; i++) {
+    const leg = pathBetweenStops(route, stops[i - 1], stops[i]) || [stops[i - 1], stops[i]];
+    // The leg starts where the previous one ended
+    leg.slice(1).forEach(point => path.push({ lat: point.lat, lon: point.lon }));
+    length += polylineLength(leg);
+    stopDistances.push(length);
+  }
+
+  return {
+    routeTag: route.tag,
+    dirTag: direction.tag,
+    path,
+    length,
+    stops,
+    stopDistances,
+    isLoop: distanceMeters(stops[0], stops[stops.length - 1]) < AT_STOP_RADIUS_M,
+  };
+};
+
+/**
+ * Polyline and stop distances for one direction of a route
+ * @param route The route
+ * @param dirTag The direction's tag
+ * @returns The geometry, or null if the direction is unknown or has fewer than two stops
+ */
+export const getDirectionGeometry = (route: Route, dirTag: string): DirectionGeometry | null => {
+  let byDirection = geometryCache.get(route);
+  if (!byDirection) {
+    byDirection = new Map();
+    geometryCache.set(route, byDirection);
+  }
+  if (!byDirection.has(dirTag)) {
+    const direction = route.directions.find(d => d.tag === dirTag);
+    byDirection.set(dirTag, direction ? buildDirectionGeometry(route, direction) : null);
+  }
+  return byDirection.get(dirTag) || null;
+};
+
+/**
+ * Where along its direction a vehicle is
+ * @param vehicle The vehicle report (its dirTag selects the direction)
+ * @param route The vehicle's route
+ * @returns Progress along the direction, or null if the vehicle can't be matched to it
+ */
+export const matchVehicleToRoute = (vehicle: VehicleLocation, route: Route): VehicleProgress | null => {
+  const geometry = getDirectionGeometry(route, vehicle.dirTag);
+  if (!geometry) return null;
+
+  const heading = vehicle.speedKmHr >= MIN_HEADING_SPEED_KMHR ? vehicle.heading : undefined;
+  const projection = projectOntoPolyline(vehicle, geometry.path, heading);
+  if (!projection || projection.distanceFromPath > MAX_VEHICLE_MATCH_DISTANCE_M) return null;
+
+  const { stops, stopDistances } = geometry;
+  let distanceAlong = projection.distanceAlong;
+  // Sitting at the end of a loop is the same as starting it again
+  if (geometry.isLoop && geometry.length - distanceAlong < AT_STOP_RADIUS_M) {
+    distanceAlong = 0;
+  }
+
+  let atStopIndex = -1;
+  stopDistances.forEach((stopDistance, index) => {
+    const offset = Math.abs(stopDistance - distanceAlong);
+    if (offset <= AT_STOP_RADIUS_M && (atStopIndex === -1 || offset < Math.abs(stopDistances[atStopIndex] - distanceAlong))) {
+      atStopIndex = index;
+    }
+  });
+
+  const nextStopIndex = atStopIndex !== -1
+    ? atStopIndex + 1
+    : stopDistances.findIndex(stopDistance => stopDistance > distanceAlong);
+  const next = nextStopIndex !== -1 && nextStopIndex < stops.length ? nextStopIndex : -1;
+  const previousStopIndex = atStopIndex !== -1
+    ? atStopIndex - 1
+    : (next === -1 ? stops.length - 1 : next - 1);
+
+  return {
+    geometry,
+    distanceAlong,
+    distanceFromPath: projection.distanceFromPath,
+    progress: geometry.length > 0 ? Math.min(1, distanceAlong / geometry.length) : 0,
+    atStop: atStopIndex !== -1 ? stops[atStopIndex] : null,
+    atStopIndex,
+    previousStop: previousStopIndex >= 0 ? stops[previousStopIndex] : null,
+    previousStopIndex,
+    nextStop: next !== -1 ? stops[next] : null,
+    nextStopIndex: next,
+    distanceToNextStop: next !== -1 ? stopDistances[next] - distanceAlong : null,
+  };
+};
@@ -0,0 +1,121 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Optional cross-device sync for preferences kept in localStorage.
+// There are no accounts: turning sync on creates a random sync key, and
+// entering that key on another device shares the same preferences. Each
+// preference type is its own section, merged last-write-wins by updatedAt
+// (see the sync-preferences edge function). The first time a device that
+// joined an existing key reconciles a section, the two copies are combined
+// instead, so joining never throws away either device's preferences.
+
+const SYNC_KEY_STORAGE = 'topperbus:syncKey';
+// Sections reconciled since joining an existing key (absent when not joining)
+const JOIN_MERGED_STORAGE = 'topperbus:syncJoinMerged';
+const SYNC_KEY_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface SyncedSection<T> {
+  data: T;
+  /** Last local change, in ms */
+  updatedAt: number;
+}
+
+/** The sync key, if sync is on */
+export const getSyncKey = (): string | null => localStorage.getItem(SYNC_KEY_STORAGE);
+
+export const isValidSyncKey = (key: string): boolean => SYNC_KEY_PATTERN.test(key.trim());
+
+/**
+ * Turn sync on
+ * @param existingKey Key from another device to join; omit to start a new one
+ * @returns The sync key in use
+ */
+export const enableSync = (existingKey?: string): string => {
+  const key = existingKey ? existingKey.trim().toLowerCase() : crypto.randomUUID();
+  localStorage.setItem(SYNC_KEY_STORAGE, key);
+  if (existingKey) {
+    localStorage.setItem(JOIN_MERGED_STORAGE, '[]');
+  } else {
+    localStorage.removeItem(JOIN_MERGED_STORAGE);
+  }
+  return key;
+};
+
+export const disableSync = () => {
+  localStorage.removeItem(SYNC_KEY_STORAGE);
+  localStorage.removeItem(JOIN_MERGED_STORAGE);
+};
+
+// Whether a section still has to be combined with the shared copy after joining
+const isJoinPending = (section: string): boolean => {
+  const stored = localStorage.getItem(JOIN_MERGED_STORAGE);
+  if (!stored) return false;
+  try {
+    return !(JSON.parse(stored) as string[]).includes(section);
+  } catch {
+    return false;
+  }
+};
+
+const markJoinMerged = (section: string) => {
+  try {
+    const merged = JSON.parse(localStorage.getItem(JOIN_MERGED_STORAGE) || '[]') as string[];
+    localStorage.setItem(JOIN_MERGED_STORAGE, JSON.stringify([...merged, section]));
+  } catch {
+    localStorage.removeItem(JOIN_MERGED_STORAGE);
+  }
+};
+
+/** Read one section from the server; null if it has none */
+export const pullSection = async <T>(syncKey: string, section: string): Promise<SyncedSection<T> | null> => {
+  const { data, error } = await supabase.functions.invoke('sync-preferences', {
+    body: { action: 'pull', syncKey },
+  });
+  if (error) throw error;
+  return data?.sections?.[section] ?? null;
+};
+
+/** Store one section on the server (ignored there if its copy is newer) */
+export const pushSection = async <T>(syncKey: string, section: string, value: SyncedSection<T>): Promise<void> => {
+  const { error } = await supabase.functions.invoke('sync-preferences', {
+    body: { action: 'push', syncKey, section, value },
+  });
+  if (error) throw error;
+};
+
+/**
+ * Reconcile a locally stored section with the server copy
+ * @param section Section name
+ * @param local The local copy
+ * @param merge Combines both copies the first time after joining an existing key
+ * @returns Whichever copy is newer, or the combined copy after joining (the
+ * server is updated if it's not the server's)
+ */
+export const syncSection = async <T>(
+  section: string,
+  local: SyncedSection<T>,
+  merge: (local: T, remote: T) => T
+): Promise<SyncedSection<T>> => {
+  const syncKey = getSyncKey();
+  if (!syncKey || !navigator.onLine) return local;
+
+  try {
+    const remote = await pullSection<T>(syncKey, section);
+    const joining = isJoinPending(section);
+    if (joining) markJoinMerged(section);
+
+    if (remote && joining) {
+      const merged = { data: merge(local.data, remote.data), updatedAt: Date.now() };
+      // Kept even if this fails: it's saved locally as the newest copy and pushed next time
+      await pushSection(syncKey, section, merged)
+        .catch(error => console.warn(`Could not sync ${section}:`, error));
+      return merged;
+    }
+    if (remote && remote.updatedAt > local.updatedAt) return remote;
+    if (!remote || remote.updatedAt < local.updatedAt) {
+      await pushSection(syncKey, section, local);
+    }
+  } catch (error) {
+    console.warn(`Could not sync ${section}:`, error);
+  }
+  return local;
+};
@@ -0,0 +1,54 @@
+import { Route, VehicleLocation, StopPredictions } from '@/types/transit';
+import { TransitProvider } from './types';
+
+// In-memory provider for offline development and testing.
+// Serves whatever snapshot it was created with; nothing touches the network.
+
+export interface FixtureData {
+  routes: Route[];
+  vehicles: VehicleLocation[];
+  predictions: StopPredictions[];
+}
+
+export const createFixtureProvider = (data: FixtureData): TransitProvider => ({
+  id: 'fixture',
+
+  async routeConfig() {
+    return data.routes;
+  },
+
+  async vehicleLocations(routeTag?: string) {
+    return routeTag
+      ? data.vehicles.filter(v => v.routeTag === routeTag)
+      : data.vehicles;
+  },
+
+  async predictions(stopTag: string, routeTag?: string) {
+    return data.predictions.filter(p =>
+      p.stopTag === stopTag && (!routeTag || p.routeTag === routeTag)
+    );
+  },
+
+  async predictionsForStops(stops) {
+    return data.predictions.filter(p =>
+      stops.some(s => s.stopTag === p.stopTag && s.routeTag === p.routeTag)
+    );
+  },
+});
+
+/**
+ * A fixture provider whose snapshot is loaded on first use
+ * @param load Resolves to the snapshot, e.g. a dynamic JSON import or a fetch
+ */
+export const createLazyFixtureProvider = (load: () => Promise<FixtureData>): TransitProvider => {
+  let provider: Promise<TransitProvider> | null = null;
+  const getProvider = () => (provider ??= load().then(createFixtureProvider));
+
+  return {
+    id: 'fixture',
+    routeConfig: async () => (await getProvider()).routeConfig(),
+    vehicleLocations: async (routeTag) => (await getProvider()).vehicleLocations(routeTag),
+    predictions: async (stopTag, routeTag) => (await getProvider()).predictions(stopTag, routeTag),
+    predictionsForStops: async (stops) => (await getProvider()).predictionsForStops(stops),
+  };
+};
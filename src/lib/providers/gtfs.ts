@@ -0,0 +1,125 @@
+import { Route } from '@/types/transit';
+import { parseGtfsStatic, GtfsImportOptions } from '@/lib/gtfs/static';
+import { decodeFeedMessage, toVehicleLocations, toStopPredictions, RtFeed } from '@/lib/gtfs/realtime';
+import { NetworkError, RateLimitError, ParseError, withRetry, isTransitError } from '@/lib/errors';
+import { TransitProvider } from './types';
+
+// GTFS provider: route configuration from a static feed zip, plus optional
+// GTFS-Realtime VehiclePositions and TripUpdates feeds. Without realtime URLs
+// vehicles and predictions are simply empty.
+
+export interface GtfsProviderConfig {
+  /** URL of the GTFS static feed zip */
+  staticUrl: string;
+  /** URL of the GTFS-Realtime VehiclePositions feed */
+  vehiclePositionsUrl?: string;
+  /** URL of the GTFS-Realtime TripUpdates feed */
+  tripUpdatesUrl?: string;
+  importOptions?: GtfsImportOptions;
+}
+
+// TripUpdates is one feed for every stop, so reuse a download across the
+// per-stop prediction calls a single refresh makes
+const REALTIME_CACHE_MS = 5000;
+
+const requestBinary = async (url: string, label: string): Promise<ArrayBuffer> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new NetworkError(error instanceof Error ? error.message : `Failed to download ${label}`);
+  }
+  if (response.status === 429) {
+    throw new RateLimitError(`${label} rate limit reached`);
+  }
+  if (!response.ok) {
+    throw new NetworkError(`Failed to download ${label} (${response.status})`, response.status);
+  }
+  return response.arrayBuffer();
+};
+
+const fetchBinary = (url: string, label: string): Promise<ArrayBuffer> =>
+  withRetry(() => requestBinary(url, label));
+
+// Decoding failures are never worth retrying
+const decodeOrThrow = <T>(decode: () => T, label: string): T => {
+  try {
+    return decode();
+  } catch (error) {
+    throw new ParseError(`Could not decode ${label}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+export const createGtfsProvider = (config: GtfsProviderConfig): TransitProvider => {
+  let routesPromise: Promise<Route[]> | null = null;
+  let tripUpdatesCache: { fetchedAt: number; feed: Promise<RtFeed> } | null = null;
+
+  const loadRoutes = (): Promise<Route[]> => {
+    if (!routesPromise) {
+      routesPromise = fetchBinary(config.staticUrl, 'GTFS feed')
+        .then(buffer => parseGtfsStatic(buffer, config.importOptions))
+        .catch(error => {
+          if (!isTransitError(error)) {
+            error = new ParseError(`Could not import GTFS feed: ${error instanceof Error ? error.message : error}`);
+          }
+          // Allow a retry on the next call
+          routesPromise = null;
+          throw error;
+        });
+    }
+    return routesPromise;
+  };
+
+  const loadTripUpdates = (url: string): Promise<RtFeed> => {
+    if (!tripUpdatesCache || Date.now() - tripUpdatesCache.fetchedAt > REALTIME_CACHE_MS) {
+      const feed = fetchBinary(url, 'TripUpdates feed')
+        .then(buffer => decodeOrThrow(() => decodeFeedMessage(buffer), 'TripUpdates feed'));
+      feed.catch(() => {
+        tripUpdatesCache = null;
+      });
+      tripUpdatesCache = { fetchedAt: Date.now(), feed };
+    }
+    return tripUpdatesCache.feed;
+  };
+
+  return {
+    id: 'gtfs',
+
+    routeConfig() {
+      return loadRoutes();
+    },
+
+    async vehicleLocations(routeTag?: string) {
+      if (!config.vehiclePositionsUrl) return [];
+      const [routes, buffer] = await Promise.all([
+        loadRoutes(),
+        fetchBinary(config.vehiclePositionsUrl, 'VehiclePositions feed'),
+      ]);
+      const feed = decodeOrThrow(() => decodeFeedMessage(buffer), 'VehiclePositions feed');
+      const vehicles = toVehicleLocations(feed, { routes });
+      return routeTag ? vehicles.filter(v => v.routeTag === routeTag) : vehicles;
+    },
+
+    async predictions(stopTag: string, routeTag?: string) {
+      if (!config.tripUpdatesUrl) return [];
+      const [routes, feed] = await Promise.all([
+        loadRoutes(),
+        loadTripUpdates(config.tripUpdatesUrl),
+      ]);
+      return toStopPredictions(feed, { routes }).filter(p =>
+        p.stopTag === stopTag && (!routeTag || p.routeTag === routeTag)
+      );
+    },
+
+    async predictionsForStops(stops) {
+      if (!config.tripUpdatesUrl || stops.length === 0) return [];
+      const [routes, feed] = await Promise.all([
+        loadRoutes(),
+        loadTripUpdates(config.tripUpdatesUrl),
+      ]);
+      return toStopPredictions(feed, { routes }).filter(p =>
+        stops.some(s => s.stopTag === p.stopTag && s.routeTag === p.routeTag)
+      );
+    },
+  };
+};
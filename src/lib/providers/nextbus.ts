@@ -0,0 +1,245 @@
+import { Route, Stop, Direction, PathPoint, VehicleLocation, StopPredictions, Prediction, PredictionDirection, StopRouteKey } from '@/types/transit';
+import { TransitProvider } from './types';
+import { NetworkError, FeedError, RateLimitError, ParseError, withRetry } from '@/lib/errors';
+import { createVehicleDeltaState, needsFullRefresh, applyVehicleDelta, VehicleDeltaState } from '@/lib/vehicleDelta';
+
+// NextBus / Umo public XML feed
+// Docs: https://retro.umoiq.com/xmlFeedDocs/NextBusXMLFeed.pdf
+
+export interface NextBusConfig {
+  baseUrl: string;
+  agency: string;
+}
+
+export const DEFAULT_NEXTBUS_CONFIG: NextBusConfig = {
+  baseUrl: 'https://retro.umoiq.com/service/publicXMLFeed',
+  agency: 'wku',
+};
+
+// The feed reports throttling as a regular <Error> whose text mentions the limit
+const RATE_LIMIT_PATTERN = /exceeded|too many|rate limit/i;
+
+async function requestXML(url: string): Promise<Document> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new NetworkError(error instanceof Error ? error.message : 'Network request failed');
+  }
+
+  if (response.status === 429) {
+    throw new RateLimitError('Transit feed rate limit reached');
+  }
+  if (!response.ok) {
+    throw new NetworkError(`Transit feed responded with ${response.status}`, response.status);
+  }
+
+  const text = await response.text();
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  if (doc.querySelector('parsererror') || !doc.documentElement) {
+    throw new ParseError('Transit feed returned malformed XML');
+  }
+
+  // <Error shouldRetry="true|false">message</Error>
+  const errorEl = doc.querySelector('Error');
+  if (errorEl) {
+    const message = errorEl.textContent?.trim() || 'Transit feed error';
+    if (RATE_LIMIT_PATTERN.test(message)) {
+      throw new RateLimitError(message);
+    }
+    throw new FeedError(message, errorEl.getAttribute('shouldRetry') === 'true');
+  }
+
+  return doc;
+}
+
+const fetchXML = (url: string): Promise<Document> => withRetry(() => requestXML(url));
+
+export const parseRouteConfig = (doc: Document): Route[] => {
+  const routeElements = doc.querySelectorAll('route');
+
+  const routes: Route[] = [];
+
+  routeElements.forEach(routeEl => {
+    const stops: Stop[] = [];
+    const directions: Direction[] = [];
+    const paths: PathPoint[][] = [];
+
+    // Parse stops
+    routeEl.querySelectorAll(':scope > stop').forEach(stopEl => {
+      stops.push({
+        tag: stopEl.getAttribute('tag') || '',
+        title: stopEl.getAttribute('title') || '',
+        shortTitle: stopEl.getAttribute('shortTitle') || undefined,
+        lat: parseFloat(stopEl.getAttribute('lat') || '0'),
+        lon: parseFloat(stopEl.getAttribute('lon') || '0'),
+        stopId: stopEl.getAttribute('stopId') || '',
+      });
+    });
+
+    // Parse directions
+    routeEl.querySelectorAll('direction').forEach(dirEl => {
+      const dirStops: string[] = [];
+      dirEl.querySelectorAll('stop').forEach(stopEl => {
+        dirStops.push(stopEl.getAttribute('tag') || '');
+      });
+
+      directions.push({
+        tag: dirEl.getAttribute('tag') || '',
+        title: dirEl.getAttribute('title') || '',
+        name: dirEl.getAttribute('name') || '',
+        useForUI: dirEl.getAttribute('useForUI') === 'true',
+        stops: dirStops,
+      });
+    });
+
+    // Parse paths
+    routeEl.querySelectorAll('path').forEach(pathEl => {
+      const points: PathPoint[] = [];
+      pathEl.querySelectorAll('point').forEach(pointEl => {
+        points.push({
+          lat: parseFloat(pointEl.getAttribute('lat') || '0'),
+          lon: parseFloat(pointEl.getAttribute('lon') || '0'),
+        });
+      });
+      if (points.length > 0) {
+        paths.push(points);
+      }
+    });
+
+    routes.push({
+      tag: routeEl.getAttribute('tag') || '',
+      title: routeEl.getAttribute('title') || '',
+      color: routeEl.getAttribute('color') || '000000',
+      oppositeColor: routeEl.getAttribute('oppositeColor') || 'ffffff',
+      latMin: parseFloat(routeEl.getAttribute('latMin') || '0'),
+      latMax: parseFloat(routeEl.getAttribute('latMax') || '0'),
+      lonMin: parseFloat(routeEl.getAttribute('lonMin') || '0'),
+      lonMax: parseFloat(routeEl.getAttribute('lonMax') || '0'),
+      stops,
+      directions,
+      paths,
+    });
+  });
+
+  return routes;
+};
+
+export const parseVehicleLocations = (doc: Document): VehicleLocation[] => {
+  const vehicleElements = doc.querySelectorAll('vehicle');
+
+  const vehicles: VehicleLocation[] = [];
+
+  vehicleElements.forEach(vehicleEl => {
+    vehicles.push({
+      id: vehicleEl.getAttribute('id') || '',
+      routeTag: vehicleEl.getAttribute('routeTag') || '',
+      dirTag: vehicleEl.getAttribute('dirTag') || '',
+      lat: parseFloat(vehicleEl.getAttribute('lat') || '0'),
+      lon: parseFloat(vehicleEl.getAttribute('lon') || '0'),
+      heading: parseFloat(vehicleEl.getAttribute('heading') || '0'),
+      speedKmHr: parseFloat(vehicleEl.getAttribute('speedKmHr') || '0'),
+      secsSinceReport: parseInt(vehicleEl.getAttribute('secsSinceReport') || '0', 10),
+    });
+  });
+
+  return vehicles;
+};
+
+/** The feed's `<lastTime time="...">` value, to pass back as `t` on the next poll */
+export const parseLastTime = (doc: Document): number =>
+  parseInt(doc.querySelector('lastTime')?.getAttribute('time') || '0', 10);
+
+export const parsePredictions = (doc: Document): StopPredictions[] => {
+  const predictionsElements = doc.querySelectorAll('predictions');
+
+  const predictions: StopPredictions[] = [];
+
+  predictionsElements.forEach(predEl => {
+    const directions: PredictionDirection[] = [];
+
+    predEl.querySelectorAll('direction').forEach(dirEl => {
+      const preds: Prediction[] = [];
+
+      dirEl.querySelectorAll('prediction').forEach(pEl => {
+        preds.push({
+          epochTime: parseInt(pEl.getAttribute('epochTime') || '0', 10),
+          seconds: parseInt(pEl.getAttribute('seconds') || '0', 10),
+          minutes: parseInt(pEl.getAttribute('minutes') || '0', 10),
+          isDeparture: pEl.getAttribute('isDeparture') === 'true',
+          affectedByLayover: pEl.getAttribute('affectedByLayover') === 'true',
+          dirTag: pEl.getAttribute('dirTag') || '',
+          vehicle: pEl.getAttribute('vehicle') || '',
+          block: pEl.getAttribute('block') || '',
+        });
+      });
+
+      if (preds.length > 0) {
+        directions.push({
+          title: dirEl.getAttribute('title') || '',
+          predictions: preds,
+        });
+      }
+    });
+
+    if (directions.length > 0) {
+      predictions.push({
+        stopTag: predEl.getAttribute('stopTag') || '',
+        stopTitle: predEl.getAttribute('stopTitle') || '',
+        routeTag: predEl.getAttribute('routeTag') || '',
+        routeTitle: predEl.getAttribute('routeTitle') || '',
+        directions,
+      });
+    }
+  });
+
+  return predictions;
+};
+
+export const createNextBusProvider = (config: NextBusConfig = DEFAULT_NEXTBUS_CONFIG): TransitProvider => {
+  const { baseUrl, agency } = config;
+  // Delta polling state per route filter ('' = all routes)
+  const vehicleStates = new Map<string, VehicleDeltaState>();
+
+  return {
+    id: 'nextbus',
+
+    async routeConfig() {
+      const doc = await fetchXML(`${baseUrl}?command=routeConfig&a=${agency}`);
+      return parseRouteConfig(doc);
+    },
+
+    async vehicleLocations(routeTag?: string) {
+      const key = routeTag || '';
+      const state = vehicleStates.get(key) || createVehicleDeltaState();
+      vehicleStates.set(key, state);
+
+      // Only ask for vehicles that reported since the last poll
+      const isFullRefresh = needsFullRefresh(state);
+      const t = isFullRefresh ? 0 : state.lastTime;
+      const url = routeTag
+        ? `${baseUrl}?command=vehicleLocations&a=${agency}&r=${routeTag}&t=${t}`
+        : `${baseUrl}?command=vehicleLocations&a=${agency}&t=${t}`;
+      const doc = await fetchXML(url);
+      return applyVehicleDelta(state, parseVehicleLocations(doc), parseLastTime(doc), isFullRefresh);
+    },
+
+    async predictions(stopTag: string, routeTag?: string) {
+      const url = routeTag
+        ? `${baseUrl}?command=predictions&a=${agency}&r=${routeTag}&s=${stopTag}`
+        : `${baseUrl}?command=predictionsForMultiStops&a=${agency}&stops=${stopTag}`;
+      const doc = await fetchXML(url);
+      return parsePredictions(doc);
+    },
+
+    async predictionsForStops(stops: StopRouteKey[]) {
+      if (stops.length === 0) return [];
+      // One `stops=route|stop` param per pair
+      const stopParams = stops
+        .map(s => `stops=${encodeURIComponent(`${s.routeTag}|${s.stopTag}`)}`)
+        .join('&');
+      const doc = await fetchXML(`${baseUrl}?command=predictionsForMultiStops&a=${agency}&${stopParams}`);
+      return parsePredictions(doc);
+    },
+  };
+};
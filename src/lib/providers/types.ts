@@ -0,0 +1,19 @@
+import { Route, VehicleLocation, StopPredictions, StopRouteKey } from '@/types/transit';
+
+/**
+ * A source of transit data. Every page and component reads through
+ * `src/lib/api.ts`, which delegates to whichever provider is active, so
+ * swapping the feed never touches the UI.
+ */
+export interface TransitProvider {
+  /** Short identifier, e.g. 'nextbus' or 'fixture' */
+  id: string;
+  /** Full route configuration: stops, directions and path polylines */
+  routeConfig(): Promise<Route[]>;
+  /** Current vehicle positions, optionally limited to one route */
+  vehicleLocations(routeTag?: string): Promise<VehicleLocation[]>;
+  /** Arrival predictions for a stop, optionally limited to one route */
+  predictions(stopTag: string, routeTag?: string): Promise<StopPredictions[]>;
+  /** Predictions for many route/stop pairs in a single round trip */
+  predictionsForStops(stops: StopRouteKey[]): Promise<StopPredictions[]>;
+}
@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ArrivalAlert } from '@/lib/arrivalAlerts';
+
+// Server-side (Web Push) backing for arrival alerts.
+// With a VAPID key configured, each alert is also registered with the
+// arrival-alerts edge function, which checks predictions every minute and
+// pushes the notification even when no tab is open. The local watcher keeps
+// running too; whichever fires first cancels the other (see use-arrival-alerts).
+
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+// Message the service worker posts to open tabs when a push alert arrives (public/alert-sw.js)
+export const PUSHED_ALERT_MESSAGE = 'arrival-alert-pushed';
+
+/** Whether alerts can be pushed by the server in this browser */
+export const isPushAvailable = (): boolean =>
+  !!VAPID_PUBLIC_KEY && 'serviceWorker' in navigator && 'PushManager' in window;
+
+// VAPID keys are distributed as URL-safe base64
+const decodeKey = (base64: string): Uint8Array => {
+  const padded = (base64 + '='.repeat((4 - base64.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+};
+
+const getSubscription = async (create: boolean): Promise<PushSubscription | null> => {
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) return null;
+
+  const existing = await registration.pushManager.getSubscription();
+  if (existing || !create) return existing;
+
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: decodeKey(VAPID_PUBLIC_KEY),
+  });
+};
+
+/**
+ * Register an alert with the push service
+ * @returns The server's rule id, or null if push isn't available here
+ */
+export const registerPushAlert = async (alert: ArrivalAlert): Promise<string | null> => {
+  if (!isPushAvailable()) return null;
+  const subscription = await getSubscription(true);
+  if (!subscription) return null;
+
+  const { data, error } = await supabase.functions.invoke('arrival-alerts', {
+    body: {
+      action: 'subscribe',
+      subscription: subscription.toJSON(),
+      rule: {
+        stopTag: alert.stopTag,
+        stopId: alert.stopId,
+        stopTitle: alert.stopTitle,
+        routeTag: alert.routeTag,
+        routeTitle: alert.routeTitle,
+        leadMinutes: alert.leadMinutes,
+      },
+    },
+  });
+  if (error) throw error;
+  return data?.ruleId ?? null;
+};
+
+/** Remove an alert's rule from the push service */
+export const cancelPushAlert = async (alert: ArrivalAlert): Promise<void> => {
+  if (!alert.pushRuleId || !isPushAvailable()) return;
+  const subscription = await getSubscription(false);
+  if (!subscription) return;
+
+  const { error } = await supabase.functions.invoke('arrival-alerts', {
+    body: { action: 'cancel', endpoint: subscription.endpoint, ruleId: alert.pushRuleId },
+  });
+  if (error) throw error;
+};
+
+/**
+ * Rule ids the push service still has for this browser
+ * @returns null when that can't be determined (no push, offline)
+ */
+export const listPushAlertIds = async (): Promise<Set<string> | null> => {
+  if (!isPushAvailable() || !navigator.onLine) return null;
+  const subscription = await getSubscription(false);
+  if (!subscription) return new Set();
+
+  const { data, error } = await supabase.functions.invoke('arrival-alerts', {
+    body: { action: 'list', endpoint: subscription.endpoint },
+  });
+  if (error) return null;
+  return new Set<string>(data?.ruleIds ?? []);
+};
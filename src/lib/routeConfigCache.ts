@@ -0,0 +1,140 @@
+import { Route } from '@/types/transit';
+import { runStoreRequest } from '@/lib/localDb';
+
+// Persistent route configuration cache (IndexedDB)
+// Route config changes maybe once a semester, so it is served from here on
+// startup and revalidated against the feed in the background.
+
+// Bump when the Route shape changes so old entries are ignored
+const SCHEMA_VERSION = 1;
+
+export interface CachedRouteConfig {
+  schemaVersion: number;
+  /** SHA-256 of the serialized routes (FNV-1a where Web Crypto is unavailable) */
+  hash: string;
+  routes: Route[];
+  /** When the config was last confirmed against the feed, in ms */
+  savedAt: number;
+}
+
+export interface RouteConfigDiff {
+  addedRoutes: string[];
+  removedRoutes: string[];
+  addedStops: string[];
+  removedStops: string[];
+  /** Route titles whose path geometry changed */
+  changedPaths: string[];
+}
+
+// 32-bit FNV-1a, for change detection where crypto.subtle is missing
+// (non-secure origins, like the dev server opened over http from a phone)
+const fnv1a = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv1a-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+/**
+ * Content hash of a route configuration
+ * Never throws: without Web Crypto it falls back to a plain string hash.
+ * @param routes The routes to hash
+ * @returns Hex-encoded SHA-256 digest, or a prefixed FNV-1a hash
+ */
+export const hashRouteConfig = async (routes: Route[]): Promise<string> => {
+  const serialized = JSON.stringify(routes);
+  try {
+    if (!globalThis.crypto?.subtle) return fnv1a(serialized);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(serialized));
+    return Array.from(new Uint8Array(digest))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  } catch (error) {
+    console.warn('Could not hash route config:', error);
+    return fnv1a(serialized);
+  }
+};
+
+/**
+ * Load the cached route configuration for a provider
+ * @param providerId The transit provider the config came from
+ * @returns The cached entry, or null if missing, outdated or IndexedDB is unavailable
+ */
+export const loadCachedRouteConfig = async (providerId: string): Promise<CachedRouteConfig | null> => {
+  try {
+    const entry = await runStoreRequest<CachedRouteConfig | undefined>('routeConfig', 'readonly', store => store.get(providerId));
+    return entry && entry.schemaVersion === SCHEMA_VERSION ? entry : null;
+  } catch (error) {
+    console.warn('Route config cache unavailable:', error);
+    return null;
+  }
+};
+
+/**
+ * Persist a route configuration for a provider
+ * Caching failures are logged, never thrown, so they can't block loading routes.
+ * @returns The stored entry (including its hash)
+ */
+export const saveRouteConfig = async (providerId: string, routes: Route[]): Promise<CachedRouteConfig> => {
+  const entry: CachedRouteConfig = {
+    schemaVersion: SCHEMA_VERSION,
+    hash: await hashRouteConfig(routes),
+    routes,
+    savedAt: Date.now(),
+  };
+  try {
+    await runStoreRequest('routeConfig', 'readwrite', store => store.put(entry, providerId));
+  } catch (error) {
+    console.warn('Could not persist route config:', error);
+  }
+  return entry;
+};
+
+/**
+ * Describe what changed between two route configurations
+ * Stops are compared by route + tag; paths by their serialized geometry.
+ */
+export const diffRouteConfigs = (previous: Route[], next: Route[]): RouteConfigDiff => {
+  const stopKeys = (routes: Route[]) =>
+    new Map(routes.flatMap(r => r.stops.map(s => [`${r.tag}|${s.tag}`, s.title] as const)));
+  const prevStops = stopKeys(previous);
+  const nextStops = stopKeys(next);
+
+  const prevRoutes = new Map(previous.map(r => [r.tag, r]));
+  const nextRoutes = new Map(next.map(r => [r.tag, r]));
+
+  return {
+    addedRoutes: next.filter(r => !prevRoutes.has(r.tag)).map(r => r.title),
+    removedRoutes: previous.filter(r => !nextRoutes.has(r.tag)).map(r => r.title),
+    addedStops: Array.from(nextStops).filter(([key]) => !prevStops.has(key)).map(([, title]) => title),
+    removedStops: Array.from(prevStops).filter(([key]) => !nextStops.has(key)).map(([, title]) => title),
+    changedPaths: next
+      .filter(r => {
+        const prev = prevRoutes.get(r.tag);
+        return prev && JSON.stringify(prev.paths) !== JSON.stringify(r.paths);
+      })
+      .map(r => r.title),
+  };
+};
+
+/** Whether a diff contains anything a rider would notice */
+export const hasRiderFacingChanges = (diff: RouteConfigDiff): boolean =>
+  diff.addedRoutes.length > 0 ||
+  diff.removedRoutes.length > 0 ||
+  diff.addedStops.length > 0 ||
+  diff.removedStops.length > 0 ||
+  diff.changedPaths.length > 0;
+
+/** One-line summary of a diff for a notification */
+export const summarizeRouteConfigDiff = (diff: RouteConfigDiff): string => {
+  const parts: string[] = [];
+  const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+  if (diff.addedRoutes.length) parts.push(`${count(diff.addedRoutes.length, 'route')} added`);
+  if (diff.removedRoutes.length) parts.push(`${count(diff.removedRoutes.length, 'route')} removed`);
+  if (diff.addedStops.length) parts.push(`${count(diff.addedStops.length, 'stop')} added`);
+  if (diff.removedStops.length) parts.push(`${count(diff.removedStops.length, 'stop')} removed`);
+  if (diff.changedPaths.length) parts.push(`new path for ${diff.changedPaths.join(', ')}`);
+  return parts.join(', ');
+};
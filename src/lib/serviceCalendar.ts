@@ -0,0 +1,201 @@
+// Service calendars as data.
+// A calendar lists the terms buses run in, the weekdays they run, breaks
+// (inclusive date ranges without service), single-day exceptions that turn
+// service on or off, and special-event days that run with a note attached.
+// Dates are local calendar days written "YYYY-MM-DD", so they compare as strings.
+// Days covered by no term and no break are treated as regular service days,
+// which keeps a partly filled calendar from cancelling buses; validateServiceCalendar
+// reports those gaps so they get filled in.
+
+export interface CalendarPeriod {
+  name: string;
+  /** First day, "YYYY-MM-DD" */
+  start: string;
+  /** Last day, inclusive */
+  end: string;
+}
+
+export interface ServiceException {
+  date: string;
+  name: string;
+  /** Whether buses run that day, whatever the weekday, term or breaks say */
+  service: boolean;
+}
+
+export interface SpecialEvent {
+  date: string;
+  name: string;
+  /** Shown to riders, e.g. detours or extra buses */
+  note: string;
+}
+
+export interface ServiceCalendar {
+  version: number;
+  /** Where the dates come from */
+  source: string;
+  /** Weekdays with service during terms, 0 = Sunday */
+  serviceDays: number[];
+  terms: CalendarPeriod[];
+  breaks: CalendarPeriod[];
+  exceptions: ServiceException[];
+  specialEvents: SpecialEvent[];
+}
+
+export type ServiceDayReason = 'term' | 'unscheduled' | 'break' | 'weekend' | 'exception';
+
+export interface ServiceDay {
+  date: string;
+  hasService: boolean;
+  /** What decided hasService */
+  reason: ServiceDayReason;
+  term: CalendarPeriod | null;
+  breakPeriod: CalendarPeriod | null;
+  exception: ServiceException | null;
+  specialEvents: SpecialEvent[];
+}
+
+export interface CalendarIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Warn when the calendar runs out within this many days
+const COVERAGE_WARNING_DAYS = 60;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Local calendar day of a date as "YYYY-MM-DD" */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** "YYYY-MM-DD" to local midnight */
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (key: string, days: number): string => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+const isValidDateKey = (key: string): boolean =>
+  DATE_PATTERN.test(key) && toDateKey(parseDateKey(key)) === key;
+
+const contains = (period: CalendarPeriod, key: string) => key >= period.start && key <= period.end;
+
+const describe = (period: CalendarPeriod) => `${period.name} (${period.start} to ${period.end})`;
+
+/**
+ * Whether buses run on a day, and why
+ * Exceptions win over breaks, and breaks over terms and weekdays.
+ * @param calendar The service calendar
+ * @param date The day to check (defaults to today)
+ */
+export const getServiceDay = (calendar: ServiceCalendar, date: Date = new Date()): ServiceDay => {
+  const key = toDateKey(date);
+  const term = calendar.terms.find(t => contains(t, key)) || null;
+  const breakPeriod = calendar.breaks.find(b => contains(b, key)) || null;
+  const exception = calendar.exceptions.find(e => e.date === key) || null;
+  const specialEvents = calendar.specialEvents.filter(e => e.date === key);
+  const day = { date: key, term, breakPeriod, exception, specialEvents };
+
+  if (exception) return { ...day, hasService: exception.service, reason: 'exception' };
+  if (breakPeriod) return { ...day, hasService: false, reason: 'break' };
+  if (!calendar.serviceDays.includes(date.getDay())) return { ...day, hasService: false, reason: 'weekend' };
+  return { ...day, hasService: true, reason: term ? 'term' : 'unscheduled' };
+};
+
+/** The next break starting after a day */
+export const getNextBreak = (calendar: ServiceCalendar, date: Date = new Date()): CalendarPeriod | null => {
+  const key = toDateKey(date);
+  return [...calendar.breaks]
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .find(b => b.start > key) || null;
+};
+
+/** The last day the calendar says anything about */
+export const getCalendarEnd = (calendar: ServiceCalendar): string | null => {
+  const ends = [...calendar.terms, ...calendar.breaks].map(p => p.end);
+  return ends.length > 0 ? ends.reduce((a, b) => (a > b ? a : b)) : null;
+};
+
+const findOverlaps = (periods: CalendarPeriod[], kind: string): CalendarIssue[] => {
+  const sorted = [...periods].sort((a, b) => a.start.localeCompare(b.start));
+  const issues: CalendarIssue[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].start <= sorted[i - 1].end) {
+      issues.push({ severity: 'error', message: `${kind} ${describe(sorted[i - 1])} overlaps ${describe(sorted[i])}` });
+    }
+  }
+  return issues;
+};
+
+/**
+ * Check a calendar for mistakes
+ * Errors are malformed dates, overlaps and a calendar that has run out;
+ * warnings are gaps between terms that no break explains, and a calendar that
+ * is about to run out.
+ * @param calendar The service calendar
+ * @param asOf Reference day for the coverage check (defaults to today)
+ * @returns Every issue found, errors first
+ */
+export const validateServiceCalendar = (calendar: ServiceCalendar, asOf: Date = new Date()): CalendarIssue[] => {
+  const issues: CalendarIssue[] = [];
+
+  if (calendar.serviceDays.length === 0 || calendar.serviceDays.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+    issues.push({ severity: 'error', message: 'serviceDays must list weekdays from 0 (Sunday) to 6 (Saturday)' });
+  }
+
+  const periods = [...calendar.terms, ...calendar.breaks];
+  const malformed = periods.filter(p => !isValidDateKey(p.start) || !isValidDateKey(p.end) || p.end < p.start);
+  malformed.forEach(p => issues.push({ severity: 'error', message: `${describe(p)} has invalid dates` }));
+  [...calendar.exceptions, ...calendar.specialEvents]
+    .filter(e => !isValidDateKey(e.date))
+    .forEach(e => issues.push({ severity: 'error', message: `${e.name} has an invalid date (${e.date})` }));
+  // Overlap and gap checks need sane dates
+  if (malformed.length > 0) return issues;
+
+  issues.push(...findOverlaps(calendar.terms, 'Term'));
+  issues.push(...findOverlaps(calendar.breaks, 'Break'));
+
+  const exceptionDates = new Set<string>();
+  calendar.exceptions.forEach(e => {
+    if (exceptionDates.has(e.date)) {
+      issues.push({ severity: 'error', message: `More than one exception on ${e.date}` });
+    }
+    exceptionDates.add(e.date);
+  });
+
+  // Every day between two terms should be in a break
+  const terms = [...calendar.terms].sort((a, b) => a.start.localeCompare(b.start));
+  for (let i = 1; i < terms.length; i++) {
+    let gapStart: string | null = null;
+    for (let key = addDays(terms[i - 1].end, 1); key < terms[i].start; key = addDays(key, 1)) {
+      const covered = calendar.breaks.some(b => contains(b, key));
+      if (!covered && !gapStart) gapStart = key;
+      if (covered && gapStart) {
+        issues.push({ severity: 'warning', message: `No term or break covers ${gapStart} to ${addDays(key, -1)}` });
+        gapStart = null;
+      }
+    }
+    if (gapStart) {
+      issues.push({ severity: 'warning', message: `No term or break covers ${gapStart} to ${addDays(terms[i].start, -1)}` });
+    }
+  }
+
+  const calendarEnd = getCalendarEnd(calendar);
+  const today = toDateKey(asOf);
+  const horizon = addDays(today, COVERAGE_WARNING_DAYS);
+  if (!calendarEnd) {
+    issues.push({ severity: 'warning', message: 'The calendar has no terms or breaks' });
+  } else if (calendarEnd < today) {
+    // Past its end every service weekday counts as running, breaks and all
+    issues.push({ severity: 'error', message: `The calendar ended ${calendarEnd}; add the current and next terms' dates` });
+  } else if (calendarEnd < horizon) {
+    issues.push({ severity: 'warning', message: `The calendar ends ${calendarEnd}; add the next term's dates` });
+  }
+
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
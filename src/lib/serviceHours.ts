@@ -0,0 +1,367 @@
+import hoursData from '@/data/serviceHours.json';
+import { SERVICE_CALENDAR, getTransitServiceDay } from '@/lib/academicCalendar';
+import { CalendarPeriod, ServiceDay, toDateKey } from '@/lib/serviceCalendar';
+import { formatTimeOfDay, parseTimeOfDay } from '@/lib/timeOfDay';
+
+// Route service hours.
+// The service calendar decides which days buses run; this decides when each
+// route runs on those days. Hours live in src/data/serviceHours.json as named
+// schedules, each with per-route, per-weekday hours and headways:
+// - defaultSchedule applies on every service day
+// - periods switch a date range to another schedule (summer or reduced service,
+//   finals week); breaks in the calendar still cancel service inside them
+// - events give a single date its own schedule even when the calendar has no
+//   service that day (game-day shuttles, commencement)
+// Times are local "HH:MM", the same clock the calendar's days use.
+
+export interface Headway {
+  start: string;
+  end: string;
+  /** Minutes between buses */
+  minutes: number;
+}
+
+export interface HoursEntry {
+  /** Weekdays these hours apply to, 0 = Sunday */
+  days: number[];
+  start: string;
+  end: string;
+  headways?: Headway[];
+}
+
+export interface RouteHoursData {
+  /** Where the first bus of the day leaves from */
+  startStop?: string;
+  hours: HoursEntry[];
+}
+
+export interface ServiceSchedule {
+  name: string;
+  /** Routes that run on this schedule, by tag */
+  routes: Record<string, RouteHoursData>;
+}
+
+export interface SchedulePeriod {
+  name: string;
+  start: string;
+  /** Last day, inclusive */
+  end: string;
+  schedule: string;
+}
+
+export interface SpecialService {
+  date: string;
+  name: string;
+  schedule: string;
+  /** Shown to riders, e.g. where the shuttles stop */
+  note?: string;
+}
+
+export interface ServiceHoursData {
+  version: number;
+  defaultSchedule: string;
+  schedules: Record<string, ServiceSchedule>;
+  periods: SchedulePeriod[];
+  events: SpecialService[];
+}
+
+/** A schedule and why it applies on a day */
+export interface ScheduleInEffect {
+  id: string;
+  schedule: ServiceSchedule;
+  period: SchedulePeriod | null;
+  event: SpecialService | null;
+}
+
+/** One route's hours on one day, in minutes after midnight */
+export interface RouteHours {
+  start: number;
+  end: number;
+  days: number[];
+  headways: { start: number; end: number; minutes: number }[];
+  startStop: string | null;
+  scheduleName: string;
+  /** Not the default schedule: a reduced period or a special event */
+  isSpecial: boolean;
+}
+
+export type RouteServiceReason =
+  | 'running'
+  | 'before-hours'
+  | 'after-hours'
+  /** There's service today, but not on this route */
+  | 'not-running-today'
+  /** No buses at all today (break, weekend or closure) */
+  | 'no-service'
+  /** A route the schedules don't list; assumed to run whenever there's service */
+  | 'hours-unknown';
+
+export interface RouteServiceStatus {
+  inService: boolean;
+  reason: RouteServiceReason;
+  hours: RouteHours | null;
+  serviceDay: ServiceDay;
+  scheduleInEffect: ScheduleInEffect | null;
+}
+
+/** When buses next start running */
+export interface NextService {
+  at: Date;
+  /** The break service is coming back from, if one falls before it */
+  afterBreak: CalendarPeriod | null;
+}
+
+export interface HoursIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export const SERVICE_HOURS = hoursData as ServiceHoursData;
+
+// How far ahead to look for the next service; longer than any break
+const NEXT_SERVICE_SEARCH_DAYS = 180;
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+const toRouteHours = (entry: HoursEntry, route: RouteHoursData, scheduleName: string, isSpecial: boolean): RouteHours => ({
+  start: parseTimeOfDay(entry.start) ?? 0,
+  end: parseTimeOfDay(entry.end) ?? 0,
+  days: entry.days,
+  headways: (entry.headways || []).map(h => ({
+    start: parseTimeOfDay(h.start) ?? 0,
+    end: parseTimeOfDay(h.end) ?? 0,
+    minutes: h.minutes,
+  })),
+  startStop: route.startStop || null,
+  scheduleName,
+  isSpecial,
+});
+
+const inEffect = (id: string, period: SchedulePeriod | null, event: SpecialService | null): ScheduleInEffect => {
+  // A missing schedule is a data mistake (see validateServiceHours); fall back to regular service
+  const scheduleId = SERVICE_HOURS.schedules[id] ? id : SERVICE_HOURS.defaultSchedule;
+  return { id: scheduleId, schedule: SERVICE_HOURS.schedules[scheduleId], period, event };
+};
+
+/**
+ * The schedule buses run on for a day
+ * @param date The day to check (defaults to today)
+ * @returns null when there's no service that day
+ */
+export const getScheduleInEffect = (date: Date = new Date()): ScheduleInEffect | null => {
+  const key = toDateKey(date);
+  const event = SERVICE_HOURS.events.find(e => e.date === key);
+  if (event) return inEffect(event.schedule, null, event);
+  if (!getTransitServiceDay(date).hasService) return null;
+
+  const period = SERVICE_HOURS.periods.find(p => key >= p.start && key <= p.end) || null;
+  return inEffect(period ? period.schedule : SERVICE_HOURS.defaultSchedule, period, null);
+};
+
+/**
+ * A route's hours on a day
+ * @param routeTag The route
+ * @param date The day (defaults to today)
+ * @returns null when the route doesn't run that day, or its hours aren't listed
+ */
+export const getRouteHours = (routeTag: string, date: Date = new Date()): RouteHours | null => {
+  const current = getScheduleInEffect(date);
+  const route = current?.schedule.routes[routeTag];
+  const entry = route?.hours.find(h => h.days.includes(date.getDay()));
+  if (!current || !route || !entry) return null;
+  return toRouteHours(entry, route, current.schedule.name, current.id !== SERVICE_HOURS.defaultSchedule);
+};
+
+/**
+ * A route's usual hours on the default schedule, for showing on days it doesn't run
+ * @param routeTag The route
+ */
+export const getRegularRouteHours = (routeTag: string): RouteHours | null => {
+  const schedule = SERVICE_HOURS.schedules[SERVICE_HOURS.defaultSchedule];
+  const route = schedule?.routes[routeTag];
+  if (!route || route.hours.length === 0) return null;
+  return toRouteHours(route.hours[0], route, schedule.name, false);
+};
+
+/**
+ * Whether a route is running at a moment, and if not, why
+ * @param routeTag The route
+ * @param date The moment to check (defaults to now)
+ */
+export const getRouteServiceStatus = (routeTag: string, date: Date = new Date()): RouteServiceStatus => {
+  const serviceDay = getTransitServiceDay(date);
+  const scheduleInEffect = getScheduleInEffect(date);
+  const status = { serviceDay, scheduleInEffect };
+
+  if (!scheduleInEffect) return { ...status, inService: false, reason: 'no-service', hours: null };
+
+  const hours = getRouteHours(routeTag, date);
+  if (!hours) {
+    // Routes added to the feed before the hours file: keep showing them on regular days
+    const isUnlisted = scheduleInEffect.id === SERVICE_HOURS.defaultSchedule && !scheduleInEffect.schedule.routes[routeTag];
+    return isUnlisted
+      ? { ...status, inService: true, reason: 'hours-unknown', hours: null }
+      : { ...status, inService: false, reason: 'not-running-today', hours: null };
+  }
+
+  const now = minutesOfDay(date);
+  if (now < hours.start) return { ...status, inService: false, reason: 'before-hours', hours };
+  if (now > hours.end) return { ...status, inService: false, reason: 'after-hours', hours };
+  return { ...status, inService: true, reason: 'running', hours };
+};
+
+/**
+ * Whether a route is running at a moment
+ * @param routeTag The route
+ * @param date The moment to check (defaults to now)
+ */
+export const isRouteInService = (routeTag: string, date: Date = new Date()): boolean =>
+  getRouteServiceStatus(routeTag, date).inService;
+
+/**
+ * From the first route's start to the last route's end on a day
+ * @param date The day (defaults to today)
+ * @returns null when no route runs that day
+ */
+export const getServiceWindow = (date: Date = new Date()): { start: number; end: number } | null => {
+  const current = getScheduleInEffect(date);
+  if (!current) return null;
+
+  const hours = Object.keys(current.schedule.routes)
+    .map(tag => getRouteHours(tag, date))
+    .filter((h): h is RouteHours => h !== null);
+  if (hours.length === 0) return null;
+  return {
+    start: Math.min(...hours.map(h => h.start)),
+    end: Math.max(...hours.map(h => h.end)),
+  };
+};
+
+/**
+ * When buses next start, after a moment with no service
+ * @param routeTag The route, or null for the first bus on any route
+ * @param from The moment to search from (defaults to now)
+ * @returns null when nothing is scheduled in the next six months
+ */
+export const getNextServiceStart = (routeTag: string | null, from: Date = new Date()): NextService | null => {
+  const defaultRoutes = SERVICE_HOURS.schedules[SERVICE_HOURS.defaultSchedule]?.routes ?? {};
+  // Unlisted routes run whenever anything does
+  const hoursOn = routeTag && defaultRoutes[routeTag]
+    ? (day: Date) => getRouteHours(routeTag, day)
+    : (day: Date) => getServiceWindow(day);
+
+  const now = minutesOfDay(from);
+  for (let offset = 0; offset <= NEXT_SERVICE_SEARCH_DAYS; offset++) {
+    const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+    const hours = hoursOn(day);
+    if (!hours || (offset === 0 && hours.start <= now)) continue;
+
+    const at = new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(hours.start / 60), hours.start % 60);
+    const fromKey = toDateKey(from);
+    const dayKey = toDateKey(day);
+    // The latest break between now and then
+    const afterBreak = SERVICE_CALENDAR.breaks
+      .filter(b => b.end >= fromKey && b.start < dayKey)
+      .sort((a, b) => b.end.localeCompare(a.end))[0] ?? null;
+    return { at, afterBreak };
+  }
+  return null;
+};
+
+/**
+ * When service resumes, relative to now
+ * @param next The next service start
+ * @param from The moment it's described from (defaults to now)
+ * @returns "today 7:30 AM", "tomorrow 7:30 AM" or "Monday 7:30 AM" within a week, "Jan 20" after that
+ */
+export const formatNextServiceTime = (next: NextService, from: Date = new Date()): string => {
+  const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const days = Math.round((startOfDay(next.at) - startOfDay(from)) / 86400000);
+  if (days >= 7) return next.at.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  const day = days === 0 ? 'today' : days === 1 ? 'tomorrow' : next.at.toLocaleDateString('en-US', { weekday: 'long' });
+  return `${day} ${formatTimeOfDay(minutesOfDay(next.at))}`;
+};
+
+/**
+ * A sentence saying when service resumes
+ * @param subject What resumes, e.g. "Red" or "Service"
+ * @param next The next service start
+ * @param from The moment it's described from (defaults to now)
+ * @returns e.g. "Red resumes Monday 7:30 AM" or "Service resumes Jan 20 after Winter Break"
+ */
+export const describeNextService = (subject: string, next: NextService, from: Date = new Date()): string =>
+  `${subject} resumes ${formatNextServiceTime(next, from)}${next.afterBreak ? ` after ${next.afterBreak.name}` : ''}`;
+
+/** Hours as "7:30 AM - 5:30 PM" */
+export const formatServiceHours = (hours: { start: number; end: number }): string =>
+  `${formatTimeOfDay(hours.start)} - ${formatTimeOfDay(hours.end)}`;
+
+/** A route's status in a few words, e.g. "Until 5:30 PM" or "Not running today" */
+export const describeRouteService = (status: RouteServiceStatus): string => {
+  switch (status.reason) {
+    case 'running':
+      return `Until ${formatTimeOfDay(status.hours!.end)}`;
+    case 'hours-unknown':
+      return 'In service';
+    case 'before-hours':
+      return `Starts ${formatTimeOfDay(status.hours!.start)}`;
+    case 'after-hours':
+      return 'Done for today';
+    default:
+      return 'Not running today';
+  }
+};
+
+
+/**
+ * Check the hours data for mistakes
+ * Errors are unknown schedules, malformed times and hours that end before they start;
+ * warnings are headways outside their route's hours.
+ * @param data The service hours
+ * @returns Every issue found, errors first
+ */
+export const validateServiceHours = (data: ServiceHoursData): HoursIssue[] => {
+  const issues: HoursIssue[] = [];
+
+  const references = [
+    { name: 'defaultSchedule', schedule: data.defaultSchedule },
+    ...data.periods.map(p => ({ name: p.name, schedule: p.schedule })),
+    ...data.events.map(e => ({ name: e.name, schedule: e.schedule })),
+  ];
+  references
+    .filter(r => !data.schedules[r.schedule])
+    .forEach(r => issues.push({ severity: 'error', message: `${r.name} uses unknown schedule "${r.schedule}"` }));
+
+  Object.entries(data.schedules).forEach(([id, schedule]) => {
+    Object.entries(schedule.routes).forEach(([tag, route]) => {
+      route.hours.forEach(entry => {
+        const label = `${id}/${tag} (${entry.start}-${entry.end})`;
+        const start = parseTimeOfDay(entry.start);
+        const end = parseTimeOfDay(entry.end);
+        if (start === null || end === null || end <= start) {
+          issues.push({ severity: 'error', message: `${label} has invalid hours` });
+          return;
+        }
+        if (entry.days.length === 0 || entry.days.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+          issues.push({ severity: 'error', message: `${label} days must be weekdays from 0 (Sunday) to 6 (Saturday)` });
+        }
+        (entry.headways || [])
+          .filter(h => {
+            const headwayStart = parseTimeOfDay(h.start);
+            const headwayEnd = parseTimeOfDay(h.end);
+            return headwayStart === null || headwayEnd === null || headwayStart < start || headwayEnd > end;
+          })
+          .forEach(h => issues.push({ severity: 'warning', message: `${label} headway ${h.start}-${h.end} is outside its hours` }));
+      });
+    });
+  });
+
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
+
+if (import.meta.env.DEV) {
+  validateServiceHours(SERVICE_HOURS).forEach(issue => {
+    console.warn(`Service hours ${issue.severity}: ${issue.message}`);
+  });
+}
@@ -0,0 +1,28 @@
+// Times of day and days of the week, as used by commutes, classes and service hours.
+// Times are stored as minutes after midnight and days as 0 = Sunday, like Date.getDay().
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** "09:10" from an <input type="time"> to minutes after midnight */
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+/** Minutes after midnight as "9:10 AM" */
+export const formatTimeOfDay = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${period}`;
+};
+
+/** Days as "Mon/Wed/Fri", or "Weekdays" / "Every day" */
+export const formatWeekdays = (days: number[]): string => {
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.length === 7) return 'Every day';
+  if (sorted.join() === '1,2,3,4,5') return 'Weekdays';
+  return sorted.map(d => WEEKDAY_LABELS[d]).join('/');
+};
@@ -0,0 +1,97 @@
+import { Route, Stop } from '@/types/transit';
+import { getDirectionGeometry } from '@/lib/mapMatching';
+import { RouteHours } from '@/lib/serviceHours';
+import { TravelTimeModel, estimateSegmentSecs, getObservedSegmentSecs } from '@/lib/travelTimes';
+
+// Printed timetables.
+// The feed has no schedule, so a timetable is built: buses leave the first stop
+// of a direction at the start of the route's hours and then every headway
+// (from the service-hours data) until the end, and the time at each later stop
+// adds up the stop-to-stop travel times for that time of day, observed where
+// the model has them and distance-based elsewhere. Routes with no listed
+// headways are taken to run one bus, leaving again as soon as it's back.
+// The times are approximate; the printout says so.
+
+export interface TimetableTrip {
+  /** Minutes after midnight at each stop of the timetable, in order */
+  times: number[];
+}
+
+export interface RouteTimetable {
+  routeTag: string;
+  dirTag: string;
+  directionTitle: string;
+  stops: Stop[];
+  trips: TimetableTrip[];
+  /** 0-1 share of the direction's segments with observed travel times */
+  observedShare: number;
+}
+
+// Used when a route has no headways and its lap time can't be estimated
+const FALLBACK_HEADWAY_MINUTES = 30;
+
+const atMinutes = (day: Date, minutes: number) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, Math.round(minutes));
+
+// The headway in effect at a time, or the last one after they run out
+const headwayAt = (hours: RouteHours, minutes: number): number | null => {
+  if (hours.headways.length === 0) return null;
+  const current = hours.headways.find(h => minutes >= h.start && minutes < h.end);
+  return (current ?? hours.headways[hours.headways.length - 1]).minutes;
+};
+
+/**
+ * A timetable for one direction of a route over a service day
+ * @param route The route
+ * @param dirTag The direction
+ * @param hours The route's hours that day
+ * @param travelTimes The travel-time model (null for distance-based times only)
+ * @param day The day, for time-of-day travel times
+ * @returns null if the direction is unknown or has fewer than two stops
+ */
+export const buildTimetable = (
+  route: Route,
+  dirTag: string,
+  hours: RouteHours,
+  travelTimes: TravelTimeModel | null,
+  day: Date
+): RouteTimetable | null => {
+  const geometry = getDirectionGeometry(route, dirTag);
+  if (!geometry) return null;
+
+  // Time at each stop for a bus leaving the first stop at `start`
+  const runTrip = (start: number): number[] => {
+    const times = [start];
+    let secs = 0;
+    for (let i = 1; i < geometry.stops.length; i++) {
+      secs += estimateSegmentSecs(travelTimes, geometry, i, atMinutes(day, start + secs / 60));
+      times.push(start + secs / 60);
+    }
+    return times.map(Math.round);
+  };
+
+  const trips: TimetableTrip[] = [];
+  for (let start = hours.start; start <= hours.end;) {
+    const times = runTrip(start);
+    trips.push({ times });
+    const lapMinutes = times[times.length - 1] - start;
+    const headway = headwayAt(hours, start) ?? (lapMinutes > 0 ? lapMinutes : FALLBACK_HEADWAY_MINUTES);
+    // A zero headway in the data would never end
+    start += Math.max(1, headway);
+  }
+
+  const midday = atMinutes(day, (hours.start + hours.end) / 2);
+  const observed = geometry.stops
+    .slice(1)
+    .filter((stop, i) => getObservedSegmentSecs(travelTimes, route.tag, dirTag, geometry.stops[i].tag, stop.tag, midday) !== null)
+    .length;
+
+  return {
+    routeTag: route.tag,
+    dirTag,
+    directionTitle: route.directions.find(d => d.tag === dirTag)?.title || dirTag,
+    stops: geometry.stops,
+    trips,
+    observedShare: observed / (geometry.stops.length - 1),
+  };
+};
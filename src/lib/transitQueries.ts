@@ -0,0 +1,36 @@
+import { StopRouteKey } from '@/types/transit';
+
+// Shared query keys and refresh cadence for the realtime store.
+// Every view reads transit data through the hooks in `@/hooks/use-transit`,
+// which sit on the app-wide QueryClient, so identical requests are shared.
+
+// Refresh cadence in ms. Polling pauses automatically while the tab is hidden,
+// except for queries that opt in (arrival alerts).
+export const REFRESH_INTERVALS = {
+  vehicles: 10000,
+  predictions: 30000,
+};
+
+// Data older than this is shown as "last known" rather than live
+export const STALE_AFTER_MS = {
+  vehicles: 60000,
+  predictions: 90000,
+};
+
+/**
+ * Whether data fetched at `lastUpdated` should be presented as stale
+ * @param lastUpdated When the data was fetched (null = never)
+ * @param staleAfterMs Staleness threshold
+ * @param now Reference time in ms
+ */
+export const isDataStale = (lastUpdated: Date | null, staleAfterMs: number, now: number = Date.now()): boolean =>
+  !!lastUpdated && now - lastUpdated.getTime() > staleAfterMs;
+
+export const transitKeys = {
+  routeConfig: ['transit', 'routeConfig'] as const,
+  vehicles: ['transit', 'vehicles'] as const,
+  predictions: (stops: StopRouteKey[]) =>
+    ['transit', 'predictions', ...stops.map(s => `${s.routeTag}|${s.stopTag}`).sort()] as const,
+  travelTimes: ['transit', 'travelTimes'] as const,
+  arrivalAlerts: ['transit', 'arrivalAlerts'] as const,
+};
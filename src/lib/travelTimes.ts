@@ -0,0 +1,373 @@
+import { Route, Stop, VehicleLocation } from '@/types/transit';
+import { runStoreRequest } from '@/lib/localDb';
+import { DirectionGeometry, VehicleProgress, matchVehicleToRoute } from '@/lib/mapMatching';
+
+// Historical stop-to-stop travel times.
+// Successive vehicle reports are map-matched to their direction; whenever a
+// bus passes two consecutive stops, the time between them (dwell at the first
+// stop included) is added to that segment's statistics for the weekday and
+// hour it happened in. Estimates fall back from that exact slot, to the same
+// hour on similar days, to any time of day, to a flat average speed.
+// Everything here except load/save is pure, so a recorded vehicle log can be
+// replayed offline (see replayVehicleLog).
+
+// Bump when the model shape changes so old entries are ignored
+const SCHEMA_VERSION = 1;
+
+// Average speed including dwell time, for segments never observed
+const FALLBACK_SPEED_MPS = 14 / 3.6;
+// A bucket needs this many observations before it is trusted
+const MIN_SAMPLES = 3;
+// Older observations fade out once a bucket has this many
+const MAX_SAMPLE_WEIGHT = 50;
+// Reports further apart than this aren't interpolated between
+const MAX_REPORT_GAP_MS = 120000;
+// Segment times outside this range are detours, layovers or matching errors
+const MIN_SEGMENT_SECS = 5;
+const MAX_SEGMENT_SECS = 20 * 60;
+// Backwards movement smaller than this is GPS noise, not a new trip
+const BACKTRACK_TOLERANCE_M = 30;
+// A bus stopped at a direction's last stop is clamped to the path's end, which
+// can fall a rounding error short of the stop
+const PASSAGE_TOLERANCE_M = 1;
+
+interface SegmentBucket {
+  count: number;
+  meanSecs: number;
+}
+
+export interface TravelTimeModel {
+  schemaVersion: number;
+  /** `route|direction|fromStop|toStop` → `weekday|hour` → observations */
+  segments: Record<string, Record<string, SegmentBucket>>;
+  /** When the model last changed, in ms */
+  updatedAt: number;
+}
+
+interface TrackedVehicle {
+  routeTag: string;
+  dirTag: string;
+  distanceAlong: number;
+  /** When the vehicle reported, in ms */
+  time: number;
+  /** The last stop the vehicle was seen passing */
+  lastPassage: { index: number; time: number } | null;
+}
+
+/** Per-vehicle state carried between calls to recordVehicleReports */
+export type TravelTimeRecorderState = Map<string, TrackedVehicle>;
+
+export interface RecordedVehicleSnapshot {
+  /** When the snapshot was fetched, in ms */
+  fetchedAt: number;
+  vehicles: VehicleLocation[];
+}
+
+export interface StopArrivalEstimate {
+  stop: Stop;
+  /** Index into the direction geometry's stops */
+  index: number;
+  /** Seconds from the vehicle's position (0 for the stop it is at) */
+  secs: number;
+  isCurrent: boolean;
+}
+
+export const createTravelTimeModel = (): TravelTimeModel => ({
+  schemaVersion: SCHEMA_VERSION,
+  segments: {},
+  updatedAt: 0,
+});
+
+export const createTravelTimeRecorderState = (): TravelTimeRecorderState => new Map();
+
+const segmentKey = (routeTag: string, dirTag: string, fromStop: string, toStop: string) =>
+  `${routeTag}|${dirTag}|${fromStop}|${toStop}`;
+
+const bucketKey = (date: Date) => `${date.getDay()}|${date.getHours()}`;
+
+const isWeekend = (day: number) => day === 0 || day === 6;
+
+const addObservation = (model: TravelTimeModel, key: string, at: Date, secs: number) => {
+  const buckets = model.segments[key] || (model.segments[key] = {});
+  const bucket = buckets[bucketKey(at)] || (buckets[bucketKey(at)] = { count: 0, meanSecs: 0 });
+  bucket.count += 1;
+  bucket.meanSecs += (secs - bucket.meanSecs) / Math.min(bucket.count, MAX_SAMPLE_WEIGHT);
+  model.updatedAt = Math.max(model.updatedAt, at.getTime());
+};
+
+// Pool buckets passing a filter into one weighted mean
+const pooledMean = (buckets: Record<string, SegmentBucket>, include: (day: number, hour: number) => boolean): number | null => {
+  let count = 0;
+  let total = 0;
+  Object.entries(buckets).forEach(([key, bucket]) => {
+    const [day, hour] = key.split('|').map(Number);
+    if (!include(day, hour)) return;
+    count += bucket.count;
+    total += bucket.meanSecs * bucket.count;
+  });
+  return count >= MIN_SAMPLES ? total / count : null;
+};
+
+/**
+ * Observed travel time for one stop-to-stop segment
+ * @param model The model (null for none)
+ * @param routeTag Route of the segment
+ * @param dirTag Direction of the segment
+ * @param fromStop Tag of the first stop
+ * @param toStop Tag of the following stop
+ * @param at When the trip starts
+ * @returns Seconds, or null if the segment hasn't been observed enough
+ */
+export const getObservedSegmentSecs = (
+  model: TravelTimeModel | null,
+  routeTag: string,
+  dirTag: string,
+  fromStop: string,
+  toStop: string,
+  at: Date
+): number | null => {
+  const buckets = model?.segments[segmentKey(routeTag, dirTag, fromStop, toStop)];
+  if (!buckets) return null;
+
+  const exact = buckets[bucketKey(at)];
+  if (exact && exact.count >= MIN_SAMPLES) return exact.meanSecs;
+
+  const day = at.getDay();
+  const hour = at.getHours();
+  return pooledMean(buckets, (d, h) => h === hour && isWeekend(d) === isWeekend(day))
+    ?? pooledMean(buckets, () => true);
+};
+
+/**
+ * Travel time for the segment ending at a stop of a direction, observed or from distance
+ * @param model The model (null for none)
+ * @param geometry The direction
+ * @param toIndex Index into `geometry.stops` of the segment's end (at least 1)
+ * @param at When the trip starts
+ */
+export const estimateSegmentSecs = (
+  model: TravelTimeModel | null,
+  geometry: DirectionGeometry,
+  toIndex: number,
+  at: Date
+): number => {
+  const from = geometry.stops[toIndex - 1];
+  const to = geometry.stops[toIndex];
+  const observed = getObservedSegmentSecs(model, geometry.routeTag, geometry.dirTag, from.tag, to.tag, at);
+  if (observed !== null) return observed;
+  return (geometry.stopDistances[toIndex] - geometry.stopDistances[toIndex - 1]) / FALLBACK_SPEED_MPS;
+};
+
+/**
+ * Travel time between two stops of a direction, dwell at intermediate stops included
+ * On a loop, a destination before the origin means riding through the end of the lap.
+ * @param model The model (null for distance-based estimates only)
+ * @param geometry The direction
+ * @param fromIndex Index into `geometry.stops` of the boarding stop
+ * @param toIndex Index into `geometry.stops` of the destination stop
+ * @param at When the trip starts
+ * @returns Seconds, or null if the destination can't be reached from the origin
+ */
+export const estimateTravelSecs = (
+  model: TravelTimeModel | null,
+  geometry: DirectionGeometry,
+  fromIndex: number,
+  toIndex: number,
+  at: Date
+): number | null => {
+  const cycleLength = geometry.isLoop ? geometry.stops.length - 1 : geometry.stops.length;
+  const stopCount = geometry.isLoop
+    ? ((toIndex % cycleLength) - (fromIndex % cycleLength) + cycleLength) % cycleLength
+    : toIndex - fromIndex;
+  if (stopCount <= 0) return null;
+
+  let secs = 0;
+  for (let i = 1; i <= stopCount; i++) {
+    const index = (fromIndex + i) % cycleLength;
+    secs += estimateSegmentSecs(model, geometry, index === 0 ? cycleLength : index, new Date(at.getTime() + secs * 1000));
+  }
+  return secs;
+};
+
+/**
+ * Estimated time from a vehicle's position to each stop ahead of it
+ * Loops continue for one full lap; other directions stop at their last stop.
+ * @param model The model (null for distance-based estimates only)
+ * @param progress The vehicle's map-matched position
+ * @param at Reference time
+ */
+export const estimateStopArrivals = (
+  model: TravelTimeModel | null,
+  progress: VehicleProgress,
+  at: Date = new Date()
+): StopArrivalEstimate[] => {
+  const { geometry, atStopIndex, nextStopIndex } = progress;
+  const isAtStop = atStopIndex !== -1;
+  const startIndex = isAtStop ? atStopIndex : nextStopIndex;
+  if (startIndex === -1) return [];
+
+  // A loop's last stop is its first one again
+  const cycleLength = geometry.isLoop ? geometry.stops.length - 1 : geometry.stops.length;
+  const stopCount = geometry.isLoop ? cycleLength : geometry.stops.length - startIndex;
+
+  const estimates: StopArrivalEstimate[] = [];
+  let secs = 0;
+  for (let i = 0; i < stopCount; i++) {
+    const index = (startIndex + i) % cycleLength;
+    // Segments are indexed by their end stop; wrapping into a new lap ends at the loop's last entry
+    const segmentIndex = index === 0 ? cycleLength : index;
+
+    if (i === 0 && !isAtStop) {
+      // Only the rest of the current segment is left
+      const segmentLength = geometry.stopDistances[segmentIndex] - geometry.stopDistances[segmentIndex - 1];
+      const remaining = segmentLength > 0 ? Math.min(1, (progress.distanceToNextStop ?? 0) / segmentLength) : 0;
+      secs = estimateSegmentSecs(model, geometry, segmentIndex, at) * remaining;
+    } else if (i > 0) {
+      secs += estimateSegmentSecs(model, geometry, segmentIndex, new Date(at.getTime() + secs * 1000));
+    }
+
+    estimates.push({
+      stop: geometry.stops[index],
+      index,
+      secs,
+      isCurrent: isAtStop && i === 0,
+    });
+  }
+  return estimates;
+};
+
+/**
+ * Add the stop-to-stop times revealed by a batch of vehicle reports to the model
+ * @param model The model (mutated)
+ * @param state Per-vehicle state from previous batches (mutated)
+ * @param vehicles The latest vehicle reports
+ * @param routes Route configuration
+ * @param fetchedAt When the reports were fetched, in ms
+ * @returns How many segment times were recorded
+ */
+export const recordVehicleReports = (
+  model: TravelTimeModel,
+  state: TravelTimeRecorderState,
+  vehicles: VehicleLocation[],
+  routes: Route[],
+  fetchedAt: number
+): number => {
+  let recorded = 0;
+
+  vehicles.forEach(vehicle => {
+    const route = routes.find(r => r.tag === vehicle.routeTag);
+    const progress = route ? matchVehicleToRoute(vehicle, route) : null;
+    if (!progress) {
+      state.delete(vehicle.id);
+      return;
+    }
+
+    const { geometry } = progress;
+    const time = fetchedAt - vehicle.secsSinceReport * 1000;
+    const previous = state.get(vehicle.id);
+    const startTracking = () => state.set(vehicle.id, {
+      routeTag: vehicle.routeTag,
+      dirTag: vehicle.dirTag,
+      distanceAlong: progress.distanceAlong,
+      time,
+      lastPassage: progress.atStopIndex !== -1 ? { index: progress.atStopIndex, time } : null,
+    });
+
+    if (
+      !previous ||
+      previous.routeTag !== vehicle.routeTag ||
+      previous.dirTag !== vehicle.dirTag ||
+      time - previous.time > MAX_REPORT_GAP_MS
+    ) {
+      startTracking();
+      return;
+    }
+    // Delta feeds repeat a vehicle until it reports again
+    if (time <= previous.time) return;
+
+    let travelled = progress.distanceAlong - previous.distanceAlong;
+    if (geometry.isLoop && travelled < -geometry.length / 2) {
+      travelled += geometry.length;
+    }
+    if (travelled < -BACKTRACK_TOLERANCE_M) {
+      startTracking();
+      return;
+    }
+
+    if (travelled > 0) {
+      // Stops passed since the previous report, in travel order; a loop's second lap is offset by its length
+      const cycleLength = geometry.isLoop ? geometry.stops.length - 1 : geometry.stops.length;
+      const laps = geometry.isLoop ? [0, geometry.length] : [0];
+      const passed = laps
+        .flatMap(offset => geometry.stopDistances.slice(0, cycleLength).map((d, index) => ({ index, distance: d + offset })))
+        .filter(s => s.distance > previous.distanceAlong && s.distance <= previous.distanceAlong + travelled + PASSAGE_TOLERANCE_M)
+        .sort((a, b) => a.distance - b.distance);
+
+      passed.forEach(({ index, distance }) => {
+        const passageTime = previous.time + ((distance - previous.distanceAlong) / travelled) * (time - previous.time);
+        const last = previous.lastPassage;
+        const expectedIndex = last ? (last.index + 1) % cycleLength : -1;
+
+        if (last && index === expectedIndex) {
+          const secs = (passageTime - last.time) / 1000;
+          if (secs >= MIN_SEGMENT_SECS && secs <= MAX_SEGMENT_SECS) {
+            const from = geometry.stops[last.index];
+            const to = geometry.stops[index];
+            addObservation(model, segmentKey(vehicle.routeTag, vehicle.dirTag, from.tag, to.tag), new Date(last.time), secs);
+            recorded++;
+          }
+        }
+        previous.lastPassage = { index, time: passageTime };
+      });
+    }
+
+    previous.distanceAlong = progress.distanceAlong;
+    previous.time = time;
+  });
+
+  // Forget vehicles that stopped reporting
+  state.forEach((tracked, id) => {
+    if (fetchedAt - tracked.time > MAX_REPORT_GAP_MS) state.delete(id);
+  });
+
+  return recorded;
+};
+
+/**
+ * Build a model from a recorded series of vehicle snapshots
+ * @param log Snapshots in the order they were fetched
+ * @param routes Route configuration the log was recorded against
+ * @param model Model to add to (a new one by default)
+ */
+export const replayVehicleLog = (
+  log: RecordedVehicleSnapshot[],
+  routes: Route[],
+  model: TravelTimeModel = createTravelTimeModel()
+): TravelTimeModel => {
+  const state = createTravelTimeRecorderState();
+  log.forEach(snapshot => recordVehicleReports(model, state, snapshot.vehicles, routes, snapshot.fetchedAt));
+  return model;
+};
+
+/**
+ * Load the stored travel-time model for a provider
+ * @returns The model, or an empty one if missing, outdated or IndexedDB is unavailable
+ */
+export const loadTravelTimeModel = async (providerId: string): Promise<TravelTimeModel> => {
+  try {
+    const model = await runStoreRequest<TravelTimeModel | undefined>('travelTimes', 'readonly', store => store.get(providerId));
+    return model && model.schemaVersion === SCHEMA_VERSION ? model : createTravelTimeModel();
+  } catch (error) {
+    console.warn('Travel time model unavailable:', error);
+    return createTravelTimeModel();
+  }
+};
+
+/** Persist the travel-time model for a provider */
+export const saveTravelTimeModel = async (providerId: string, model: TravelTimeModel): Promise<void> => {
+  try {
+    await runStoreRequest('travelTimes', 'readwrite', store => store.put(model, providerId));
+  } catch (error) {
+    console.warn('Could not persist travel time model:', error);
+  }
+};
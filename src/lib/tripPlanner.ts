@@ -0,0 +1,334 @@
+import { Prediction, Route, Stop, StopPredictions, StopRouteKey } from '@/types/transit';
+import { LatLon, distanceMeters } from '@/lib/geo';
+import { DirectionGeometry, getDirectionGeometry } from '@/lib/mapMatching';
+import { TravelTimeModel, estimateTravelSecs } from '@/lib/travelTimes';
+import { WalkingGraph, createWalkTimer, findWalkingRoute } from '@/lib/walkingRouter';
+
+// Campus trip planning: walk the whole way, or walk to a stop, ride one route
+// and walk from the stop nearest the destination.
+// Planning is two steps so predictions can be fetched in between:
+// findTripCandidates lists the boarding/alighting stop pairs worth checking,
+// and planTrips times them against live predictions and ranks them by arrival
+// (or planArriveBy lists the departures that still get there by a set time).
+// Trips at other times, without predictions, are estimated by estimateTrip.
+// Walking legs are timed on the campus walking graph.
+
+// Don't suggest stops further than this from either end of the trip
+const MAX_WALK_TO_STOP_M = 600;
+// Nearest stops considered at each end, per route direction
+const MAX_STOPS_PER_END = 3;
+// Bus options shown alongside walking
+const MAX_BUS_OPTIONS = 3;
+
+export interface TripCandidate {
+  route: Route;
+  geometry: DirectionGeometry;
+  /** Index into `geometry.stops` */
+  boardIndex: number;
+  alightIndex: number;
+  boardStop: Stop;
+  alightStop: Stop;
+  stopsRidden: number;
+  walkToStopSecs: number;
+  walkFromStopSecs: number;
+}
+
+export interface WalkTripOption {
+  kind: 'walk';
+  walkSecs: number;
+  /** Arrival at the destination, in ms */
+  arrivalTime: number;
+}
+
+export interface BusTripOption extends TripCandidate {
+  kind: 'bus';
+  /** The predicted bus */
+  vehicle: string;
+  /** When the bus reaches the boarding stop, in ms */
+  departureTime: number;
+  /** When the bus reaches the alighting stop, in ms */
+  alightTime: number;
+  /** The ride time comes from the bus's own prediction rather than past travel times */
+  isRideLive: boolean;
+  /** Arrival at the destination, in ms */
+  arrivalTime: number;
+}
+
+export type TripOption = WalkTripOption | BusTripOption;
+
+export interface ArriveByDeparture extends BusTripOption {
+  /** When to set off for the boarding stop, in ms */
+  leaveBy: number;
+}
+
+export interface EstimatedBusTrip extends TripCandidate {
+  rideSecs: number;
+  /** Walking to, riding and walking from the bus; the wait for it isn't known */
+  totalSecs: number;
+}
+
+export interface EstimatedTrip {
+  walkSecs: number;
+  /** The fastest bus trip, if any beats walking */
+  bus: EstimatedBusTrip | null;
+}
+
+export interface ArriveByPlan {
+  /** Walking the whole way */
+  walk: { walkSecs: number; leaveBy: number };
+  /** Buses that get there in time and let you leave later than walking, earliest first */
+  departures: ArriveByDeparture[];
+}
+
+// The stops of a direction quickest to walk to from a point, quickest first
+const nearestStopIndexes = (geometry: DirectionGeometry, point: LatLon, stopCount: number, walkSecsTo: (to: LatLon) => number) =>
+  geometry.stops
+    .slice(0, stopCount)
+    .map((stop, index) => ({ index, stop }))
+    .filter(s => distanceMeters(point, s.stop) <= MAX_WALK_TO_STOP_M)
+    .map(s => ({ index: s.index, walkSecs: walkSecsTo(s.stop) }))
+    .sort((a, b) => a.walkSecs - b.walkSecs)
+    .slice(0, MAX_STOPS_PER_END);
+
+/**
+ * Boarding/alighting stop pairs that could beat walking
+ * @param origin Where the trip starts
+ * @param destination Where the trip ends
+ * @param routes Route configuration
+ * @param walkingGraph Campus walking graph (null for straight-line walking estimates)
+ */
+export const findTripCandidates = (
+  origin: LatLon,
+  destination: LatLon,
+  routes: Route[],
+  walkingGraph: WalkingGraph | null
+): TripCandidate[] => {
+  // Walks are symmetric, so one search from each end times every stop
+  const walkFromOrigin = createWalkTimer(walkingGraph, origin);
+  const walkToDestination = createWalkTimer(walkingGraph, destination);
+  const directWalkSecs = walkFromOrigin(destination);
+  const candidates: TripCandidate[] = [];
+
+  routes.forEach(route => {
+    route.directions.forEach(direction => {
+      const geometry = getDirectionGeometry(route, direction.tag);
+      if (!geometry) return;
+
+      // A loop's last stop repeats its first
+      const cycleLength = geometry.isLoop ? geometry.stops.length - 1 : geometry.stops.length;
+      const boardStops = nearestStopIndexes(geometry, origin, cycleLength, walkFromOrigin);
+      const alightStops = nearestStopIndexes(geometry, destination, cycleLength, walkToDestination);
+
+      boardStops.forEach(board => {
+        alightStops.forEach(alight => {
+          const stopsRidden = geometry.isLoop
+            ? (alight.index - board.index + cycleLength) % cycleLength
+            : alight.index - board.index;
+          if (stopsRidden <= 0) return;
+          // Walking to and from the bus alone already takes longer
+          if (board.walkSecs + alight.walkSecs >= directWalkSecs) return;
+
+          candidates.push({
+            route,
+            geometry,
+            boardIndex: board.index,
+            alightIndex: alight.index,
+            boardStop: geometry.stops[board.index],
+            alightStop: geometry.stops[alight.index],
+            stopsRidden,
+            walkToStopSecs: board.walkSecs,
+            walkFromStopSecs: alight.walkSecs,
+          });
+        });
+      });
+    });
+  });
+
+  return candidates;
+};
+
+/** Stops whose predictions planTrips needs */
+export const getTripPredictionStops = (candidates: TripCandidate[]): StopRouteKey[] => {
+  const keys = new Map<string, StopRouteKey>();
+  candidates.forEach(c => {
+    [c.boardStop, c.alightStop].forEach(stop => {
+      keys.set(`${c.route.tag}|${stop.tag}`, { stopTag: stop.tag, routeTag: c.route.tag });
+    });
+  });
+  return Array.from(keys.values());
+};
+
+// Predicted arrivals at a stop in one direction, earliest first
+const arrivalsAt = (predictions: StopPredictions[], routeTag: string, stopTag: string, dirTag: string) =>
+  predictions
+    .filter(p => p.routeTag === routeTag && p.stopTag === stopTag)
+    .flatMap(p => p.directions.flatMap(d => d.predictions))
+    // Feeds without per-prediction directions match any
+    .filter(pred => !pred.dirTag || pred.dirTag === dirTag)
+    .sort((a, b) => a.epochTime - b.epochTime);
+
+// A trip on one predicted bus, or null if its ride can't be timed
+const timeDeparture = (
+  candidate: TripCandidate,
+  departure: Prediction,
+  predictions: StopPredictions[],
+  travelTimes: TravelTimeModel | null
+): BusTripOption | null => {
+  const { route, geometry } = candidate;
+
+  // Prefer the same bus's own prediction for the alighting stop
+  const liveAlight = arrivalsAt(predictions, route.tag, candidate.alightStop.tag, geometry.dirTag)
+    .find(pred => pred.vehicle === departure.vehicle && pred.epochTime > departure.epochTime);
+  const rideSecs = liveAlight
+    ? null
+    : estimateTravelSecs(travelTimes, geometry, candidate.boardIndex, candidate.alightIndex, new Date(departure.epochTime));
+  if (!liveAlight && rideSecs === null) return null;
+
+  const alightTime = liveAlight ? liveAlight.epochTime : departure.epochTime + rideSecs * 1000;
+  return {
+    ...candidate,
+    kind: 'bus',
+    vehicle: departure.vehicle,
+    departureTime: departure.epochTime,
+    alightTime,
+    isRideLive: !!liveAlight,
+    arrivalTime: alightTime + candidate.walkFromStopSecs * 1000,
+  };
+};
+
+/**
+ * Time trip options and rank them by arrival
+ * @param origin Where the trip starts
+ * @param destination Where the trip ends
+ * @param candidates Output of findTripCandidates
+ * @param predictions Predictions for getTripPredictionStops(candidates)
+ * @param travelTimes Historical travel times, for rides the feed doesn't predict end to end
+ * @param walkingGraph Campus walking graph (null for a straight-line walking estimate)
+ * @param now Reference time in ms
+ * @returns Walking plus the best bus option per route, earliest arrival first
+ */
+export const planTrips = (
+  origin: LatLon,
+  destination: LatLon,
+  candidates: TripCandidate[],
+  predictions: StopPredictions[],
+  travelTimes: TravelTimeModel | null,
+  walkingGraph: WalkingGraph | null,
+  now: number = Date.now()
+): TripOption[] => {
+  const walkSecs = findWalkingRoute(walkingGraph, origin, destination).durationSecs;
+  const walk: WalkTripOption = { kind: 'walk', walkSecs, arrivalTime: now + walkSecs * 1000 };
+
+  const bestByRoute = new Map<string, BusTripOption>();
+  candidates.forEach(candidate => {
+    const { route, geometry } = candidate;
+    const readyAt = now + candidate.walkToStopSecs * 1000;
+
+    // The first bus that leaves after we can get to the stop
+    const departure = arrivalsAt(predictions, route.tag, candidate.boardStop.tag, geometry.dirTag)
+      .find(pred => pred.epochTime >= readyAt);
+    if (!departure) return;
+
+    const option = timeDeparture(candidate, departure, predictions, travelTimes);
+    if (!option) return;
+
+    const best = bestByRoute.get(route.tag);
+    if (!best || option.arrivalTime < best.arrivalTime) {
+      bestByRoute.set(route.tag, option);
+    }
+  });
+
+  const busOptions = Array.from(bestByRoute.values())
+    // Not worth it unless the bus gets there first
+    .filter(option => option.arrivalTime < walk.arrivalTime)
+    .sort((a, b) => a.arrivalTime - b.arrivalTime)
+    .slice(0, MAX_BUS_OPTIONS);
+
+  return [...busOptions, walk].sort((a, b) => a.arrivalTime - b.arrivalTime);
+};
+
+/**
+ * Departures that get to the destination by a set time
+ * @param origin Where the trip starts
+ * @param destination Where the trip ends
+ * @param candidates Output of findTripCandidates
+ * @param predictions Predictions for getTripPredictionStops(candidates)
+ * @param travelTimes Historical travel times, for rides the feed doesn't predict end to end
+ * @param walkingGraph Campus walking graph (null for a straight-line walking estimate)
+ * @param arriveBy Latest arrival at the destination, in ms
+ * @param now Reference time in ms
+ */
+export const planArriveBy = (
+  origin: LatLon,
+  destination: LatLon,
+  candidates: TripCandidate[],
+  predictions: StopPredictions[],
+  travelTimes: TravelTimeModel | null,
+  walkingGraph: WalkingGraph | null,
+  arriveBy: number,
+  now: number = Date.now()
+): ArriveByPlan => {
+  const walkSecs = findWalkingRoute(walkingGraph, origin, destination).durationSecs;
+  const walk = { walkSecs, leaveBy: arriveBy - walkSecs * 1000 };
+
+  // Each bus once, on the last trip that still makes it and boarding wherever lets you leave latest
+  const bestByVehicle = new Map<string, ArriveByDeparture>();
+  candidates.forEach(candidate => {
+    const readyAt = now + candidate.walkToStopSecs * 1000;
+
+    arrivalsAt(predictions, candidate.route.tag, candidate.boardStop.tag, candidate.geometry.dirTag)
+      .filter(pred => pred.epochTime >= readyAt)
+      .forEach(departure => {
+        const option = timeDeparture(candidate, departure, predictions, travelTimes);
+        if (!option || option.arrivalTime > arriveBy) return;
+
+        const leaveBy = option.departureTime - candidate.walkToStopSecs * 1000;
+        const key = `${candidate.route.tag}|${option.vehicle}`;
+        const best = bestByVehicle.get(key);
+        if (!best || leaveBy > best.leaveBy) {
+          bestByVehicle.set(key, { ...option, leaveBy });
+        }
+      });
+  });
+
+  const departures = Array.from(bestByVehicle.values())
+    // Not worth it unless you can leave later than if you walked
+    .filter(departure => departure.leaveBy > walk.leaveBy)
+    .sort((a, b) => a.leaveBy - b.leaveBy);
+
+  return { walk, departures };
+};
+
+/**
+ * Walking and bus times for a trip at any time, from past travel times rather than predictions
+ * @param origin Where the trip starts
+ * @param destination Where the trip ends
+ * @param candidates Output of findTripCandidates
+ * @param travelTimes Historical travel times (null for distance-based ride estimates)
+ * @param walkingGraph Campus walking graph (null for a straight-line walking estimate)
+ * @param at When the trip starts, for time-of-day ride estimates
+ */
+export const estimateTrip = (
+  origin: LatLon,
+  destination: LatLon,
+  candidates: TripCandidate[],
+  travelTimes: TravelTimeModel | null,
+  walkingGraph: WalkingGraph | null,
+  at: Date
+): EstimatedTrip => {
+  const walkSecs = findWalkingRoute(walkingGraph, origin, destination).durationSecs;
+
+  let bus: EstimatedBusTrip | null = null;
+  candidates.forEach(candidate => {
+    const boardAt = new Date(at.getTime() + candidate.walkToStopSecs * 1000);
+    const rideSecs = estimateTravelSecs(travelTimes, candidate.geometry, candidate.boardIndex, candidate.alightIndex, boardAt);
+    if (rideSecs === null) return;
+
+    const totalSecs = candidate.walkToStopSecs + rideSecs + candidate.walkFromStopSecs;
+    if (totalSecs < walkSecs && (!bus || totalSecs < bus.totalSecs)) {
+      bus = { ...candidate, rideSecs, totalSecs };
+    }
+  });
+
+  return { walkSecs, bus };
+};
@@ -0,0 +1,77 @@
+import { VehicleLocation } from '@/types/transit';
+
+// Merges incremental vehicle reports into a running vehicle list.
+// Feeds that support deltas (NextBus `t=lastTime`) only return vehicles that
+// reported since the previous poll; everything else is carried forward and
+// aged until it stops reporting for too long.
+
+// Drop a vehicle once it has been silent this long
+export const VEHICLE_EXPIRY_SECS = 180;
+
+interface TrackedVehicle {
+  vehicle: VehicleLocation;
+  /** When the vehicle last reported, in ms */
+  reportedAt: number;
+}
+
+export interface VehicleDeltaState {
+  /** Feed timestamp to send with the next request (0 = full refresh) */
+  lastTime: number;
+  /** When the state was last updated, in ms */
+  updatedAt: number;
+  tracked: Map<string, TrackedVehicle>;
+}
+
+export const createVehicleDeltaState = (): VehicleDeltaState => ({
+  lastTime: 0,
+  updatedAt: 0,
+  tracked: new Map(),
+});
+
+/**
+ * Whether the next request should be a full refresh rather than a delta
+ * A long gap (e.g. a backgrounded tab) means the delta window is meaningless.
+ */
+export const needsFullRefresh = (state: VehicleDeltaState, now: number = Date.now()): boolean =>
+  state.lastTime === 0 || now - state.updatedAt > VEHICLE_EXPIRY_SECS * 1000;
+
+/**
+ * Apply a feed response to the state and return the current vehicle list
+ * @param state Running state (mutated)
+ * @param reports Vehicles returned by the feed
+ * @param lastTime The feed's new lastTime value
+ * @param isFullRefresh Whether the response is a complete snapshot rather than a delta
+ * @param now Reference time in ms
+ */
+export const applyVehicleDelta = (
+  state: VehicleDeltaState,
+  reports: VehicleLocation[],
+  lastTime: number,
+  isFullRefresh: boolean,
+  now: number = Date.now()
+): VehicleLocation[] => {
+  if (isFullRefresh) {
+    state.tracked.clear();
+  }
+
+  reports.forEach(vehicle => {
+    state.tracked.set(vehicle.id, {
+      vehicle,
+      reportedAt: now - vehicle.secsSinceReport * 1000,
+    });
+  });
+
+  const vehicles: VehicleLocation[] = [];
+  state.tracked.forEach((entry, id) => {
+    const secsSinceReport = Math.round((now - entry.reportedAt) / 1000);
+    if (secsSinceReport > VEHICLE_EXPIRY_SECS) {
+      state.tracked.delete(id);
+      return;
+    }
+    vehicles.push({ ...entry.vehicle, secsSinceReport });
+  });
+
+  state.lastTime = lastTime || state.lastTime;
+  state.updatedAt = now;
+  return vehicles;
+};
@@ -0,0 +1,132 @@
+import { PathPoint, VehicleLocation } from '@/types/transit';
+import { LatLon, bearingDifference, distanceMeters, polylineLength, pointAlongPolyline, projectOntoPolyline } from '@/lib/geo';
+
+// Dead reckoning for vehicle markers between feed reports.
+// A report is snapped to the route path that matches its position and heading,
+// then advanced along that path at the reported speed. Vehicles that can't be
+// matched, are standing still or reported too long ago stay where they were seen.
+
+// Never move a marker more than this far past its last report
+export const MAX_EXTRAPOLATION_SECS = 30;
+// Reports older than this are shown as-is
+export const MAX_REPORT_AGE_SECS = 60;
+// How far off a path a report may be and still be snapped to it
+const MAX_SNAP_DISTANCE_M = 40;
+// GPS speed noise while dwelling at a stop
+const MIN_MOVING_SPEED_KMHR = 3;
+// Displayed markers ease toward their estimate with this time constant
+const EASING_SECS = 0.6;
+// Anything further than this is a different trip or a fresh fix, not motion
+const MAX_EASED_JUMP_M = 400;
+
+interface PathMatch {
+  path: PathPoint[];
+  /** Meters from the path start at the reported position */
+  distanceAlong: number;
+  length: number;
+  /** Whether the vehicle travels in the path's point order */
+  forward: boolean;
+}
+
+export interface VehicleTrack {
+  vehicle: VehicleLocation;
+  /** When the report was fetched, in ms (secsSinceReport is relative to this) */
+  fetchedAt: number;
+  match: PathMatch | null;
+}
+
+export interface EstimatedPosition extends LatLon {
+  /** Degrees clockwise from north */
+  heading: number;
+}
+
+const matchToPaths = (vehicle: VehicleLocation, paths: PathPoint[][]): PathMatch | null => {
+  let best: PathMatch | null = null;
+  let bestScore = Infinity;
+
+  for (const path of paths) {
+    const projection = projectOntoPolyline(vehicle, path);
+    if (!projection || projection.distanceFromPath > MAX_SNAP_DISTANCE_M) continue;
+
+    // Overlapping paths are common (both directions share streets), so the
+    // heading decides both which path and which way along it
+    const headingDiff = bearingDifference(vehicle.heading, projection.bearing);
+    const forward = headingDiff <= 90;
+    const score = projection.distanceFromPath + (forward ? headingDiff : 180 - headingDiff) / 10;
+
+    if (score < bestScore) {
+      bestScore = score;
+      best = {
+        path,
+        distanceAlong: projection.distanceAlong,
+        length: polylineLength(path),
+        forward,
+      };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Prepare a vehicle report for dead reckoning
+ * @param vehicle The latest report
+ * @param paths Paths of the vehicle's route (pass none to keep the vehicle where it was seen)
+ * @param fetchedAt When the report was fetched, in ms
+ */
+export const createVehicleTrack = (
+  vehicle: VehicleLocation,
+  paths: PathPoint[][],
+  fetchedAt: number = Date.now()
+): VehicleTrack => {
+  const isMoving = vehicle.speedKmHr >= MIN_MOVING_SPEED_KMHR && vehicle.secsSinceReport <= MAX_REPORT_AGE_SECS;
+  return {
+    vehicle,
+    fetchedAt,
+    match: isMoving ? matchToPaths(vehicle, paths) : null,
+  };
+};
+
+/**
+ * Best guess of where a tracked vehicle is right now
+ * @param track The vehicle's track
+ * @param now Reference time in ms
+ */
+export const estimateVehiclePosition = (track: VehicleTrack, now: number = Date.now()): EstimatedPosition => {
+  const { vehicle, fetchedAt, match } = track;
+  if (!match) {
+    return { lat: vehicle.lat, lon: vehicle.lon, heading: vehicle.heading };
+  }
+
+  const secsSinceReport = vehicle.secsSinceReport + Math.max(0, now - fetchedAt) / 1000;
+  const travelled = (vehicle.speedKmHr / 3.6) * Math.min(secsSinceReport, MAX_EXTRAPOLATION_SECS);
+  const distanceAlong = match.forward
+    ? Math.min(match.length, match.distanceAlong + travelled)
+    : Math.max(0, match.distanceAlong - travelled);
+
+  const point = pointAlongPolyline(match.path, distanceAlong);
+  if (!point) {
+    return { lat: vehicle.lat, lon: vehicle.lon, heading: vehicle.heading };
+  }
+  return {
+    lat: point.lat,
+    lon: point.lon,
+    heading: match.forward ? point.bearing : (point.bearing + 180) % 360,
+  };
+};
+
+/**
+ * Move a displayed position part of the way toward its target
+ * Large jumps (a new trip, a bus reappearing) are applied immediately.
+ * @param current Where the marker is drawn
+ * @param target Where the marker should be
+ * @param elapsedSecs Time since the previous frame
+ */
+export const easePosition = (current: LatLon, target: LatLon, elapsedSecs: number): LatLon => {
+  if (distanceMeters(current, target) > MAX_EASED_JUMP_M) return target;
+  const t = 1 - Math.exp(-Math.max(0, elapsedSecs) / EASING_SECS);
+  return {
+    lat: current.lat + (target.lat - current.lat) * t,
+    lon: current.lon + (target.lon - current.lon) * t,
+  };
+};
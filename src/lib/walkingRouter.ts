@@ -0,0 +1,276 @@
+import { LatLon, distanceMeters, projectOntoPolyline } from '@/lib/geo';
+
+// Campus walking directions, computed in the browser.
+// The graph is built from OpenStreetMap footpaths by scripts/build-walking-graph.mjs
+// and bundled with the app, so directions work offline and follow campus paths
+// and stairs instead of depending on a public routing server.
+// Points off the graph join it at the nearest path; walks the graph can't route
+// (outside its coverage, or no graph at all) fall back to a straight-line estimate.
+
+export const WALKING_SPEED_MPS = 1.3;
+// Footpaths wind around buildings, so an unrouted walk is longer than the straight line
+const WALKING_DETOUR_FACTOR = 1.3;
+// Points further than this from every path aren't joined to the graph
+const MAX_SNAP_DISTANCE_M = 250;
+// Walk timers stop searching past this; longer walks use the straight-line estimate
+const MAX_TIMER_SECS = 45 * 60;
+
+// Edge kinds in the order scripts/build-walking-graph.mjs numbers them
+const EDGE_KINDS = ['path', 'crossing', 'steps', 'road'] as const;
+export type WalkingEdgeKind = typeof EDGE_KINDS[number];
+
+// Time multipliers per edge kind: stairs are slower, and walking along a road
+// counts a little extra so dedicated paths win when they're close
+const EDGE_KIND_FACTORS: Record<WalkingEdgeKind, number> = {
+  path: 1,
+  crossing: 1,
+  steps: 1.6,
+  road: 1.15,
+};
+
+/** The graph file as written by scripts/build-walking-graph.mjs */
+export interface WalkingGraphData {
+  version: number;
+  source: string;
+  generatedAt: string | null;
+  /** [lat, lon] */
+  nodes: [number, number][];
+  /** [from node, to node, kind index] */
+  edges: [number, number, number][];
+}
+
+interface WalkingEdge {
+  from: number;
+  to: number;
+  kind: WalkingEdgeKind;
+  meters: number;
+  secs: number;
+}
+
+export interface WalkingGraph {
+  nodes: LatLon[];
+  edges: WalkingEdge[];
+  /** Edge indexes touching each node */
+  adjacency: number[][];
+}
+
+export interface WalkingRoute {
+  /** From the start to the end point, inclusive */
+  path: LatLon[];
+  /** In meters */
+  distance: number;
+  durationSecs: number;
+  /** The walk couldn't be routed on the graph; path and times are a straight-line estimate */
+  isApproximate: boolean;
+}
+
+// Where a point joins the graph
+interface GraphSnap {
+  point: LatLon;
+  edge: WalkingEdge;
+  /** Walk from the original point to the graph */
+  offsetSecs: number;
+  /** Along the edge from the joining point to each end */
+  secsToFrom: number;
+  secsToTo: number;
+}
+
+interface ShortestTimes {
+  secs: Float64Array;
+  /** Previous node on the fastest path (-1 at a source) */
+  previous: Int32Array;
+}
+
+/** Estimated walking time between two points in a straight line, in seconds */
+export const estimateWalkSecs = (from: LatLon, to: LatLon): number =>
+  distanceMeters(from, to) * WALKING_DETOUR_FACTOR / WALKING_SPEED_MPS;
+
+/** Index a graph file for routing */
+export const buildWalkingGraph = (data: WalkingGraphData): WalkingGraph => {
+  const nodes = data.nodes.map(([lat, lon]) => ({ lat, lon }));
+  const adjacency: number[][] = nodes.map(() => []);
+
+  const edges = data.edges.map(([from, to, kindIndex]) => {
+    const kind = EDGE_KINDS[kindIndex] || 'road';
+    const meters = distanceMeters(nodes[from], nodes[to]);
+    return { from, to, kind, meters, secs: meters * EDGE_KIND_FACTORS[kind] / WALKING_SPEED_MPS };
+  });
+  edges.forEach((edge, i) => {
+    adjacency[edge.from].push(i);
+    adjacency[edge.to].push(i);
+  });
+
+  return { nodes, edges, adjacency };
+};
+
+/** Load the bundled campus graph (split into its own chunk, which the service worker precaches) */
+export const loadWalkingGraph = async (): Promise<WalkingGraph> => {
+  const { default: data } = await import('@/data/campusWalkingGraph.json');
+  return buildWalkingGraph(data as WalkingGraphData);
+};
+
+const snapToGraph = (graph: WalkingGraph, point: LatLon): GraphSnap | null => {
+  let best: GraphSnap | null = null;
+  let bestDistance = MAX_SNAP_DISTANCE_M;
+
+  for (const edge of graph.edges) {
+    const projection = projectOntoPolyline(point, [graph.nodes[edge.from], graph.nodes[edge.to]]);
+    if (!projection || projection.distanceFromPath > bestDistance) continue;
+
+    const fraction = edge.meters > 0 ? projection.distanceAlong / edge.meters : 0;
+    bestDistance = projection.distanceFromPath;
+    best = {
+      point: { lat: projection.lat, lon: projection.lon },
+      edge,
+      offsetSecs: projection.distanceFromPath / WALKING_SPEED_MPS,
+      secsToFrom: edge.secs * fraction,
+      secsToTo: edge.secs * (1 - fraction),
+    };
+  }
+
+  return best;
+};
+
+// Dijkstra from where a point joins the graph
+const findShortestTimes = (graph: WalkingGraph, source: GraphSnap, maxSecs: number, targets: number[] = []): ShortestTimes => {
+  const secs = new Float64Array(graph.nodes.length).fill(Infinity);
+  const previous = new Int32Array(graph.nodes.length).fill(-1);
+  const settled = new Uint8Array(graph.nodes.length);
+  let targetsLeft = new Set(targets).size;
+
+  // Binary min-heap of [secs, node]
+  const heap: [number, number][] = [];
+  const push = (entry: [number, number]) => {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = (): [number, number] => {
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  const relax = (node: number, time: number, from: number) => {
+    if (time >= secs[node] || time > maxSecs) return;
+    secs[node] = time;
+    previous[node] = from;
+    push([time, node]);
+  };
+
+  relax(source.edge.from, source.secsToFrom, -1);
+  relax(source.edge.to, source.secsToTo, -1);
+
+  while (heap.length > 0) {
+    const [time, node] = pop();
+    if (settled[node] || time > secs[node]) continue;
+    settled[node] = 1;
+    if (targets.includes(node) && --targetsLeft === 0) break;
+
+    for (const edgeIndex of graph.adjacency[node]) {
+      const edge = graph.edges[edgeIndex];
+      const next = edge.from === node ? edge.to : edge.from;
+      if (!settled[next]) relax(next, time + edge.secs, node);
+    }
+  }
+
+  return { secs, previous };
+};
+
+// Seconds along the graph between two joining points, and the node the walk leaves the graph from
+const timeBetween = (times: ShortestTimes, source: GraphSnap, target: GraphSnap) => {
+  const viaFrom = times.secs[target.edge.from] + target.secsToFrom;
+  const viaTo = times.secs[target.edge.to] + target.secsToTo;
+  let best = viaFrom <= viaTo
+    ? { secs: viaFrom, lastNode: target.edge.from }
+    : { secs: viaTo, lastNode: target.edge.to };
+
+  // Both points on the same edge: walk straight along it
+  if (source.edge === target.edge) {
+    const along = Math.abs(source.secsToFrom - target.secsToFrom);
+    if (along <= best.secs) best = { secs: along, lastNode: -1 };
+  }
+  return best;
+};
+
+const straightLineRoute = (from: LatLon, to: LatLon): WalkingRoute => ({
+  path: [from, to],
+  distance: distanceMeters(from, to) * WALKING_DETOUR_FACTOR,
+  durationSecs: estimateWalkSecs(from, to),
+  isApproximate: true,
+});
+
+/**
+ * Walking route between two points
+ * @param graph Campus walking graph (null before it has loaded)
+ * @param from Start point
+ * @param to End point
+ * @returns The fastest route on the graph, or a straight-line estimate when it can't be routed
+ */
+export const findWalkingRoute = (graph: WalkingGraph | null, from: LatLon, to: LatLon): WalkingRoute => {
+  if (!graph) return straightLineRoute(from, to);
+
+  const start = snapToGraph(graph, from);
+  const end = snapToGraph(graph, to);
+  if (!start || !end) return straightLineRoute(from, to);
+
+  const times = findShortestTimes(graph, start, Infinity, [end.edge.from, end.edge.to]);
+  const { secs, lastNode } = timeBetween(times, start, end);
+  if (!isFinite(secs)) return straightLineRoute(from, to);
+
+  const nodePath: LatLon[] = [];
+  for (let node = lastNode; node !== -1; node = times.previous[node]) {
+    nodePath.unshift(graph.nodes[node]);
+  }
+  const path = [from, start.point, ...nodePath, end.point, to];
+
+  let distance = 0;
+  for (let i = 1; i < path.length; i++) {
+    distance += distanceMeters(path[i - 1], path[i]);
+  }
+
+  return {
+    path,
+    distance,
+    durationSecs: start.offsetSecs + secs + end.offsetSecs,
+    isApproximate: false,
+  };
+};
+
+/**
+ * Walking times from one point to many, searching the graph once
+ * @param graph Campus walking graph (null before it has loaded)
+ * @param origin Where every walk starts (walks are symmetric, so this also times walks ending here)
+ * @returns Walking time in seconds to a point; straight-line estimate where the graph can't route it
+ */
+export const createWalkTimer = (graph: WalkingGraph | null, origin: LatLon): ((to: LatLon) => number) => {
+  const start = graph ? snapToGraph(graph, origin) : null;
+  if (!start) return (to) => estimateWalkSecs(origin, to);
+
+  const times = findShortestTimes(graph, start, MAX_TIMER_SECS);
+  return (to) => {
+    const end = snapToGraph(graph, to);
+    if (!end) return estimateWalkSecs(origin, to);
+    const { secs } = timeBetween(times, start, end);
+    return isFinite(secs) ? start.offsetSecs + secs + end.offsetSecs : estimateWalkSecs(origin, to);
+  };
+};
@@ -0,0 +1,291 @@
+import { useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useRouteConfig } from '@/hooks/use-transit';
+import { useTravelTimeModel } from '@/hooks/use-travel-times';
+import { useWalkingGraph } from '@/hooks/use-walking-graph';
+import { useClassSchedule } from '@/hooks/use-class-schedule';
+import { CAMPUS_BUILDINGS, getBuildingById } from '@/lib/campusBuildings';
+import { ClassMeeting, getClassTransfers, getClassesOn, parseIcsSchedule } from '@/lib/classSchedule';
+import { WEEKDAY_LABELS, formatTimeOfDay, parseTimeOfDay } from '@/lib/timeOfDay';
+import { EstimatedTrip, estimateTrip, findTripCandidates } from '@/lib/tripPlanner';
+import { Input } from '@/components/ui/input';
+import { AlertTriangle, ArrowLeft, Bus, Footprints, GraduationCap, Plus, Upload, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// Monday first
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+// Minutes to spare we'd call a tight connection
+const TIGHT_MARGIN_MINUTES = 2;
+
+const formatMinutes = (secs: number): string => `${Math.max(1, Math.round(secs / 60))} min`;
+
+// This week's date for a weekday and time, for time-of-day travel estimates
+const dateThisWeek = (day: number, minutes: number): Date => {
+  const today = new Date();
+  return new Date(today.getFullYear(), today.getMonth(), today.getDate() + (day - today.getDay()), 0, minutes);
+};
+
+const Classes = () => {
+  const { routes } = useRouteConfig();
+  const { travelTimes } = useTravelTimeModel();
+  const { walkingGraph } = useWalkingGraph();
+  const { classes, addClasses, replaceClasses, removeClass, setBuilding } = useClassSchedule();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const daysWithClasses = useMemo(() => {
+    return DAY_ORDER.filter(day => classes.some(c => c.days.includes(day)));
+  }, [classes]);
+  const [selectedDay, setSelectedDay] = useState(() => new Date().getDay());
+  const day = daysWithClasses.includes(selectedDay) ? selectedDay : daysWithClasses[0] ?? selectedDay;
+
+  const [title, setTitle] = useState('');
+  const [location, setLocation] = useState('');
+  const [days, setDays] = useState<number[]>([]);
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+
+  const dayClasses = useMemo(() => getClassesOn(classes, day), [classes, day]);
+
+  // Walking and bus estimates for each move between classes
+  const trips = useMemo(() => {
+    const byClass = new Map<string, EstimatedTrip>();
+    getClassTransfers(classes, day).forEach(({ from, to }) => {
+      const origin = getBuildingById(from.buildingId);
+      const destination = getBuildingById(to.buildingId);
+      if (!origin || !destination) return;
+      const candidates = findTripCandidates(origin, destination, routes, walkingGraph);
+      byClass.set(to.id, estimateTrip(origin, destination, candidates, travelTimes, walkingGraph, dateThisWeek(day, from.endMinutes)));
+    });
+    return byClass;
+  }, [classes, day, routes, travelTimes, walkingGraph]);
+
+  const buildings = useMemo(() => {
+    return [...CAMPUS_BUILDINGS].sort((a, b) => a.name.localeCompare(b.name));
+  }, []);
+
+  const handleImport = async (file: File) => {
+    try {
+      const meetings = parseIcsSchedule(await file.text());
+      if (meetings.length === 0) {
+        toast.error('No classes found in that file');
+        return;
+      }
+      replaceClasses(meetings);
+      toast.success(`Imported ${meetings.length} ${meetings.length === 1 ? 'class' : 'classes'}`);
+    } catch (error) {
+      console.error('Schedule import failed:', error);
+      toast.error('Could not read that file');
+    }
+  };
+
+  const toggleDay = (d: number) => {
+    setDays(days.includes(d) ? days.filter(x => x !== d) : [...days, d]);
+  };
+
+  const handleAdd = () => {
+    const startMinutes = parseTimeOfDay(start);
+    const endMinutes = parseTimeOfDay(end);
+    if (!title.trim() || !location.trim() || days.length === 0 || startMinutes === null || endMinutes === null) {
+      toast.error('Fill in the class, building, days and times');
+      return;
+    }
+    if (endMinutes <= startMinutes) {
+      toast.error('The class has to end after it starts');
+      return;
+    }
+    addClasses([{ title: title.trim(), location: location.trim(), days, startMinutes, endMinutes }]);
+    setTitle('');
+    setLocation('');
+    setDays([]);
+    setStart('');
+    setEnd('');
+  };
+
+  const renderTrip = (from: ClassMeeting, to: ClassMeeting) => {
+    const trip = trips.get(to.id);
+    if (!trip) return null;
+
+    const gapMinutes = to.startMinutes - from.endMinutes;
+    const walkMinutes = Math.ceil(trip.walkSecs / 60);
+    const busMinutes = trip.bus ? Math.ceil(trip.bus.totalSecs / 60) : null;
+    const isTight = Math.min(walkMinutes, busMinutes ?? Infinity) > gapMinutes - TIGHT_MARGIN_MINUTES;
+    const color = trip.bus && (trip.bus.route.color === '000000' ? '6B7280' : trip.bus.route.color);
+
+    return (
+      <div className="ml-4 pl-4 border-l-2 border-dashed border-border py-2 space-y-1.5 text-xs">
+        <p className="text-muted-foreground">{gapMinutes} min between classes</p>
+        <div className="flex items-center gap-2">
+          <Footprints className="w-3.5 h-3.5 text-primary flex-shrink-0" />
+          <span>Walk {formatMinutes(trip.walkSecs)}</span>
+        </div>
+        {trip.bus && (
+          <div className="flex items-start gap-2">
+            <Bus className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" style={{ color: `#${color}` }} />
+            <span>
+              <span className="font-medium">{trip.bus.route.title}</span> from {trip.bus.boardStop.title} to {trip.bus.alightStop.title}
+              {' '}· about {formatMinutes(trip.bus.totalSecs)} with walking, plus the wait
+            </span>
+          </div>
+        )}
+        {isTight && (
+          <div className="flex items-center gap-2 text-amber-400">
+            <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+            <span>Tight connection: leave as soon as class ends</span>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/80 backdrop-blur-md sticky top-0 z-10">
+        <div className="px-4 py-3 flex items-center gap-3">
+          <Link
+            to="/"
+            className="p-2 -ml-2 rounded-lg hover:bg-secondary transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <div className="flex-1">
+            <h1 className="text-lg font-semibold text-foreground">My Classes</h1>
+            <p className="text-xs text-muted-foreground">Getting between classes, day by day</p>
+          </div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-secondary text-sm font-medium hover:bg-secondary/80 transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            Import .ics
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </header>
+
+      <div className="max-w-lg mx-auto p-4 space-y-6">
+        {classes.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <GraduationCap className="w-10 h-10 mx-auto mb-3 opacity-50" />
+            <p className="text-sm">Import your schedule as an .ics file, or add classes below.</p>
+            <p className="text-xs mt-1">Importing replaces the classes saved here.</p>
+          </div>
+        ) : (
+          <div>
+            {/* Day tabs */}
+            <div className="flex gap-1 mb-4">
+              {daysWithClasses.map(d => (
+                <button
+                  key={d}
+                  onClick={() => setSelectedDay(d)}
+                  className={cn(
+                    "flex-1 py-2 rounded-lg text-sm font-medium transition-colors",
+                    d === day ? "bg-primary text-primary-foreground" : "bg-secondary text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  {WEEKDAY_LABELS[d]}
+                </button>
+              ))}
+            </div>
+
+            {/* Classes and the trips between them */}
+            <div>
+              {dayClasses.map((meeting, i) => {
+                const building = getBuildingById(meeting.buildingId);
+                return (
+                  <div key={meeting.id}>
+                    {i > 0 && renderTrip(dayClasses[i - 1], meeting)}
+                    <div className="p-3 rounded-xl bg-secondary">
+                      <div className="flex items-start gap-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-sm truncate">{meeting.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatTimeOfDay(meeting.startMinutes)} - {formatTimeOfDay(meeting.endMinutes)} · {meeting.location}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => removeClass(meeting.id)}
+                          className="p-1.5 -m-1.5 rounded-lg text-muted-foreground hover:text-foreground transition-colors"
+                          title="Remove class"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                      {building ? (
+                        <p className="mt-1 text-xs text-primary">{building.name} ({building.abbreviation})</p>
+                      ) : (
+                        <select
+                          value=""
+                          onChange={(e) => setBuilding(meeting.id, e.target.value || null)}
+                          className="mt-2 w-full px-2 py-1.5 rounded-lg bg-background/60 border-0 text-xs text-amber-400"
+                        >
+                          <option value="">Building not recognized: pick one</option>
+                          {buildings.map(b => (
+                            <option key={b.id} value={b.id}>{b.name} ({b.abbreviation})</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Manual entry */}
+        <div className="p-4 rounded-xl bg-card border border-border space-y-3">
+          <h2 className="text-sm font-medium">Add a class</h2>
+          <Input placeholder="Class, e.g. ENG 100" value={title} onChange={(e) => setTitle(e.target.value)} />
+          <Input
+            placeholder="Building and room, e.g. Cherry Hall 125"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            list="campus-buildings"
+          />
+          <datalist id="campus-buildings">
+            {buildings.map(b => <option key={b.id} value={b.name} />)}
+          </datalist>
+          <div className="flex gap-1">
+            {DAY_ORDER.map(d => (
+              <button
+                key={d}
+                onClick={() => toggleDay(d)}
+                className={cn(
+                  "flex-1 py-1.5 rounded-md text-xs font-medium transition-colors",
+                  days.includes(d) ? "bg-primary text-primary-foreground" : "bg-secondary text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {WEEKDAY_LABELS[d].slice(0, 2)}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Input type="time" value={start} onChange={(e) => setStart(e.target.value)} />
+            <span className="text-xs text-muted-foreground">to</span>
+            <Input type="time" value={end} onChange={(e) => setEnd(e.target.value)} />
+          </div>
+          <button
+            onClick={handleAdd}
+            className="w-full flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add class
+          </button>
+        </div>
+      </div>
+    </main>
+  );
+};
+
+export default Classes;
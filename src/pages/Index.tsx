@@ -1,33 +1,48 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { Route, VehicleLocation, Stop } from '@/types/transit';
-import { fetchRouteConfig, fetchVehicleLocations } from '@/lib/api';
+import { useRouteConfig, useVehicles } from '@/hooks/use-transit';
 import BusMap from '@/components/BusMap';
 import BusCard from '@/components/BusCard';
 import RouteSelector from '@/components/RouteSelector';
 import StopCard from '@/components/StopCard';
 import StopList from '@/components/StopList';
+import FavoritesDashboard from '@/components/FavoritesDashboard';
 import QRScanner from '@/components/QRScanner';
 import RouteLegend from '@/components/RouteLegend';
 import BuildingCard from '@/components/BuildingCard';
+import ArrivalAlertsMenu from '@/components/ArrivalAlertsMenu';
+import CommutesMenu from '@/components/CommutesMenu';
+import CommuteSuggestion from '@/components/CommuteSuggestion';
 import { CampusBuilding } from '@/lib/campusBuildings';
-import { Bus, ScanLine, List, Map as MapIcon, RefreshCw, Calendar, AlertTriangle, MessageSquare } from 'lucide-react';
+import { Bus, ScanLine, List, Map as MapIcon, RefreshCw, Calendar, AlertTriangle, MessageSquare, WifiOff, GraduationCap } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
-import { getCurrentBreakPeriod, formatBreakDates } from '@/lib/academicCalendar';
+import { getCurrentBreakPeriod, getTransitServiceDay, formatBreakDates } from '@/lib/academicCalendar';
+import { describeNextService, formatNextServiceTime, formatServiceHours, getNextServiceStart, getServiceWindow } from '@/lib/serviceHours';
+import { describeTransitError } from '@/lib/errors';
+import { STALE_AFTER_MS, isDataStale } from '@/lib/transitQueries';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { useNow } from '@/hooks/use-now';
+import { useTravelTimeRecorder } from '@/hooks/use-travel-times';
+import { useArrivalAlertWatcher } from '@/hooks/use-arrival-alerts';
 
 const Index = () => {
   const [searchParams, setSearchParams] = useSearchParams();
-  const [routes, setRoutes] = useState<Route[]>([]);
-  const [vehicles, setVehicles] = useState<VehicleLocation[]>([]);
+  const { routes, isLoading: loading, error: routesError, refetch: refetchRoutes } = useRouteConfig();
+  const { vehicles, lastUpdated: vehiclesUpdated, error: vehiclesError, refetch: refetchVehicles } = useVehicles();
+  useTravelTimeRecorder();
+  useArrivalAlertWatcher();
+  const isOnline = useOnlineStatus();
+  const nowMs = useNow();
+  const vehiclesStale = !isOnline || isDataStale(vehiclesUpdated, STALE_AFTER_MS.vehicles, nowMs);
   const [selectedRoute, setSelectedRoute] = useState<string | null>(null);
   const [selectedStop, setSelectedStop] = useState<Stop | null>(null);
   const [selectedStopRoute, setSelectedStopRoute] = useState<Route | null>(null);
   const [selectedVehicle, setSelectedVehicle] = useState<VehicleLocation | null>(null);
   const [selectedVehicleRoute, setSelectedVehicleRoute] = useState<Route | null>(null);
   const [selectedBuilding, setSelectedBuilding] = useState<CampusBuilding | null>(null);
-  const [loading, setLoading] = useState(true);
   const [showScanner, setShowScanner] = useState(false);
   const [view, setView] = useState<'map' | 'list'>('map');
   const [stopSearch, setStopSearch] = useState('');
@@ -36,53 +51,37 @@ const Index = () => {
   const [isLocating, setIsLocating] = useState(false);
   const [directionsDestination, setDirectionsDestination] = useState<CampusBuilding | null>(null);
 
-  // Initial data load
+  const handledStopParam = useRef(false);
+
+  // Open the stop from the URL once route data is available
   useEffect(() => {
-    const loadData = async () => {
-      try {
-        const routeData = await fetchRouteConfig();
-        setRoutes(routeData);
-        
-        const vehicleData = await fetchVehicleLocations();
-        setVehicles(vehicleData);
-        
-        // Check for stop param in URL
-        const stopParam = searchParams.get('stop');
-        if (stopParam && routeData.length > 0) {
-          selectStopById(stopParam, routeData);
-        }
-      } catch (error) {
-        console.error('Error loading data:', error);
-        toast.error('Failed to load bus data');
-      } finally {
-        setLoading(false);
-      }
-    };
+    if (handledStopParam.current || routes.length === 0) return;
+    handledStopParam.current = true;
 
-    loadData();
-  }, []);
+    const stopParam = searchParams.get('stop');
+    if (stopParam) {
+      selectStopById(stopParam, routes);
+    }
+  }, [routes]);
 
-  // Refresh vehicle locations periodically and update selected vehicle position
   useEffect(() => {
-    const interval = setInterval(async () => {
-      try {
-        const vehicleData = await fetchVehicleLocations();
-        setVehicles(vehicleData);
-        
-        // Update selected vehicle with new position
-        if (selectedVehicle) {
-          const updatedVehicle = vehicleData.find(v => v.id === selectedVehicle.id);
-          if (updatedVehicle) {
-            setSelectedVehicle(updatedVehicle);
-          }
-        }
-      } catch (error) {
-        console.error('Error refreshing vehicles:', error);
+    if (routesError) {
+      console.error('Error loading data:', routesError);
+      // The offline banner already explains this
+      if (navigator.onLine) {
+        toast.error(`Failed to load bus data: ${describeTransitError(routesError)}`);
       }
-    }, 10000);
+    }
+  }, [routesError]);
 
-    return () => clearInterval(interval);
-  }, [selectedVehicle?.id]);
+  // Keep the selected vehicle in sync with the shared vehicle store
+  useEffect(() => {
+    if (!selectedVehicle) return;
+    const updatedVehicle = vehicles.find(v => v.id === selectedVehicle.id);
+    if (updatedVehicle && updatedVehicle !== selectedVehicle) {
+      setSelectedVehicle(updatedVehicle);
+    }
+  }, [vehicles, selectedVehicle]);
 
   const selectStopById = (stopId: string, routeData: Route[] = routes) => {
     for (const route of routeData) {
@@ -156,15 +155,16 @@ const Index = () => {
   const handleRefresh = async () => {
     setIsRefreshing(true);
     try {
-      const [routeData, vehicleData] = await Promise.all([
-        fetchRouteConfig(),
-        fetchVehicleLocations(),
+      const [routeResult, vehicleResult] = await Promise.all([
+        refetchRoutes(),
+        refetchVehicles(),
       ]);
-      setRoutes(routeData);
-      setVehicles(vehicleData);
+      if (routeResult.error || vehicleResult.error) {
+        throw routeResult.error || vehicleResult.error;
+      }
       toast.success('Data refreshed');
     } catch (error) {
-      toast.error('Failed to refresh');
+      toast.error(`Failed to refresh: ${describeTransitError(error)}`);
     } finally {
       setIsRefreshing(false);
     }
@@ -231,12 +231,15 @@ const Index = () => {
               <div>
                 <h1 className="text-lg font-semibold text-foreground">WKU Transit</h1>
                 <p className="text-xs text-muted-foreground">
-                  Live tracking
+                  {vehiclesStale ? 'Last known positions' : 'Live tracking'}
+                  {vehiclesUpdated && ` · ${vehiclesStale ? 'As of' : 'Updated'} ${vehiclesUpdated.toLocaleTimeString()}`}
                 </p>
               </div>
             </div>
             
             <div className="flex items-center gap-2">
+              <ArrivalAlertsMenu onSelectStop={(stopId) => selectStopById(stopId)} />
+              <CommutesMenu />
               <Link
                 to="/feedback"
                 className="p-2.5 rounded-xl bg-secondary text-muted-foreground hover:text-foreground hover:bg-secondary/80 transition-colors"
@@ -244,6 +247,13 @@ const Index = () => {
               >
                 <MessageSquare className="w-5 h-5" />
               </Link>
+              <Link
+                to="/classes"
+                className="p-2.5 rounded-xl bg-secondary text-muted-foreground hover:text-foreground hover:bg-secondary/80 transition-colors"
+                title="My classes"
+              >
+                <GraduationCap className="w-5 h-5" />
+              </Link>
               <Link
                 to="/schedule"
                 className="p-2.5 rounded-xl bg-secondary text-muted-foreground hover:text-foreground hover:bg-secondary/80 transition-colors"
@@ -274,46 +284,62 @@ const Index = () => {
             onSelectRoute={setSelectedRoute}
           />
           
+          <CommuteSuggestion routes={routes} onStopSelect={handleStopClick} />
+          
+          {/* Offline banner */}
+          {!isOnline && (
+            <div className="mt-3 flex items-start gap-2 p-2.5 rounded-lg bg-secondary border border-border">
+              <WifiOff className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+              <p className="text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">You're offline.</span>{' '}
+                {vehiclesUpdated
+                  ? `Showing last known data as of ${vehiclesUpdated.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.`
+                  : 'Showing saved routes and stops.'}{' '}
+                Live updates resume when you reconnect.
+              </p>
+            </div>
+          )}
+          
           {/* Dynamic route warning for routes with no active buses */}
           {(() => {
-            const now = new Date();
-            const dayOfWeek = now.getDay();
-            const hours = now.getHours();
-            const minutes = now.getMinutes();
-            const currentTime = hours * 60 + minutes;
+            const now = new Date(nowMs);
+            const currentTime = now.getHours() * 60 + now.getMinutes();
             
             // Check for school break first
-            const breakPeriod = getCurrentBreakPeriod();
+            const breakPeriod = getCurrentBreakPeriod(now);
+            const serviceDay = getTransitServiceDay(now);
             
-            // Service hours: Mon-Fri, roughly 7:15 AM - 5:30 PM
-            const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-            const serviceStart = 7 * 60 + 15; // 7:15 AM
-            const serviceEnd = 17 * 60 + 30; // 5:30 PM
-            const isOutsideHours = currentTime < serviceStart || currentTime > serviceEnd;
+            // First to last bus across all routes today; null when nothing runs,
+            // and set on otherwise off days with special-event service
+            const serviceWindow = getServiceWindow(now);
+            const isOutsideHours = !serviceWindow || currentTime < serviceWindow.start || currentTime > serviceWindow.end;
+            const nextService = getNextServiceStart(null, now);
             
             const inactiveRoutes = routes.filter(r => 
               !vehicles.some(v => v.routeTag === r.tag)
             );
             
             // School break takes priority
-            if (breakPeriod) {
+            if (breakPeriod && !serviceWindow) {
               return (
                 <div className="mt-3 flex items-start gap-2 p-2.5 rounded-lg bg-amber-500/10 border border-amber-500/20">
                   <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
                   <p className="text-xs text-amber-200/90">
-                    <span className="font-medium">Note:</span> Buses are out of service for {breakPeriod.name} ({formatBreakDates(breakPeriod)}). WKU Transit operates Mon-Fri during Fall & Spring semesters only.
+                    <span className="font-medium">Note:</span> Buses are out of service for {breakPeriod.name} ({formatBreakDates(breakPeriod)}).{' '}
+                    {nextService && `Service resumes ${formatNextServiceTime(nextService, now)}. `}WKU Transit operates Mon-Fri during Fall & Spring semesters only.
                   </p>
                 </div>
               );
             }
             
             // Weekend message
-            if (isWeekend) {
+            if (serviceDay.reason === 'weekend' && !serviceWindow) {
               return (
                 <div className="mt-3 flex items-start gap-2 p-2.5 rounded-lg bg-amber-500/10 border border-amber-500/20">
                   <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
                   <p className="text-xs text-amber-200/90">
-                    <span className="font-medium">Note:</span> Buses are out of service. WKU Transit operates Monday - Friday only.
+                    <span className="font-medium">Note:</span> Buses are out of service.{' '}
+                    {nextService && `${describeNextService('Service', nextService, now)}. `}WKU Transit operates Monday - Friday only.
                   </p>
                 </div>
               );
@@ -325,7 +351,26 @@ const Index = () => {
                 <div className="mt-3 flex items-start gap-2 p-2.5 rounded-lg bg-amber-500/10 border border-amber-500/20">
                   <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
                   <p className="text-xs text-amber-200/90">
-                    <span className="font-medium">Note:</span> Buses are out of service for the day. Service hours are Mon-Fri, 7:15 AM - 5:30 PM.
+                    <span className="font-medium">Note:</span>{' '}
+                    {serviceWindow && currentTime < serviceWindow.start
+                      ? "Buses haven't started for the day."
+                      : `Buses are out of service${serviceDay.exception && !serviceDay.hasService ? ` for ${serviceDay.exception.name}` : ' for the day'}.`}{' '}
+                    {nextService
+                      ? `${describeNextService('Service', nextService, now)}.`
+                      : serviceWindow ? `Today's service hours are ${formatServiceHours(serviceWindow)}.` : 'WKU Transit operates Mon-Fri during Fall & Spring semesters.'}
+                  </p>
+                </div>
+              );
+            }
+            
+            // Feed down: we can't tell which buses are running, so don't blame individual routes
+            if (vehiclesError && isOnline) {
+              return (
+                <div className="mt-3 flex items-start gap-2 p-2.5 rounded-lg bg-red-500/10 border border-red-500/20">
+                  <AlertTriangle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+                  <p className="text-xs text-red-200/90">
+                    <span className="font-medium">Live tracking unavailable:</span> {describeTransitError(vehiclesError)}.{' '}
+                    {vehicles.length > 0 ? 'Showing last known bus positions.' : 'Bus positions will appear once the feed recovers.'}
                   </p>
                 </div>
               );
@@ -406,6 +451,8 @@ const Index = () => {
           <BusMap
             routes={routes}
             vehicles={vehicles}
+            vehiclesAsOf={vehiclesUpdated}
+            vehiclesStale={vehiclesStale}
             selectedRoute={selectedRoute}
             selectedStop={selectedStop}
             selectedVehicle={selectedVehicle}
@@ -425,16 +472,24 @@ const Index = () => {
 
         {/* Stop list sidebar */}
         <div className={cn(
-          "w-full md:w-80 lg:w-96 border-l border-border bg-card",
-          view === 'map' && "hidden md:block"
+          "w-full md:w-80 lg:w-96 border-l border-border bg-card flex flex-col",
+          view === 'map' && "hidden md:flex"
         )}>
-          <StopList
+          <FavoritesDashboard
             routes={routes}
-            selectedRoute={selectedRoute}
+            vehicles={vehicles}
             onStopSelect={handleStopClick}
-            search={stopSearch}
-            onSearchChange={setStopSearch}
+            onSelectRoute={setSelectedRoute}
           />
+          <div className="flex-1 min-h-0">
+            <StopList
+              routes={routes}
+              selectedRoute={selectedRoute}
+              onStopSelect={handleStopClick}
+              search={stopSearch}
+              onSearchChange={setStopSearch}
+            />
+          </div>
         </div>
       </div>
 
@@ -463,6 +518,10 @@ const Index = () => {
         <BuildingCard
           building={selectedBuilding}
           onClose={handleCloseBuilding}
+          routes={routes}
+          userLocation={userLocation}
+          onGetLocation={handleGetLocation}
+          onGetDirections={handleGetDirections}
         />
       )}
 
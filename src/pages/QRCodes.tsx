@@ -1,34 +1,19 @@
-import { useEffect, useState, useRef, useMemo } from 'react';
+import { useState, useRef, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { QRCodeSVG } from 'qrcode.react';
 import { Route, Stop } from '@/types/transit';
-import { fetchRouteConfig } from '@/lib/api';
+import { useRouteConfig } from '@/hooks/use-transit';
 import { ArrowLeft, Download, Printer, Search, Bus } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
 const QRCodes = () => {
-  const [routes, setRoutes] = useState<Route[]>([]);
+  const { routes, isLoading: loading } = useRouteConfig();
   const [selectedRoute, setSelectedRoute] = useState<string | null>(null);
   const [search, setSearch] = useState('');
-  const [loading, setLoading] = useState(true);
   const printRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const routeData = await fetchRouteConfig();
-        setRoutes(routeData);
-      } catch (error) {
-        console.error('Error loading routes:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    loadData();
-  }, []);
-
   const getBaseUrl = () => {
     return 'https://topperbus.lovable.app';
   };
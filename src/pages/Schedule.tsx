@@ -1,170 +1,40 @@
-import { useEffect, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Route, VehicleLocation, StopPredictions } from '@/types/transit';
-import { fetchRouteConfig, fetchVehicleLocations, fetchPredictions } from '@/lib/api';
-import { ArrowLeft, Bus, Clock, MapPin, AlertCircle, CheckCircle } from 'lucide-react';
+import { StopRouteKey } from '@/types/transit';
+import { useRouteConfig, useVehicles, usePredictions } from '@/hooks/use-transit';
+import { useTravelTimeModel } from '@/hooks/use-travel-times';
+import { ArrowLeft, Bus, Clock, MapPin, AlertCircle, CheckCircle, Printer } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-interface BusJourneyStop {
-  tag: string;
-  title: string;
-  stopId: string;
-  estimatedMinutes: number | null;
-  isCurrent: boolean;
-}
-
-// Route operating hours (in 24-hour format)
-const ROUTE_SCHEDULES: Record<string, { startHour: number; startMin: number; endHour: number; endMin: number }> = {
-  'red': { startHour: 7, startMin: 30, endHour: 17, endMin: 30 },   // Campus Circulator: 7:30 AM - 5:30 PM
-  'white': { startHour: 7, startMin: 15, endHour: 17, endMin: 24 }, // South Campus: 7:15 AM - 5:24 PM
-  'blue': { startHour: 7, startMin: 20, endHour: 17, endMin: 30 },  // Kentucky Street: 7:20 AM - 5:30 PM
-};
-
-const isRouteInService = (routeTag: string): boolean => {
-  const now = new Date();
-  const day = now.getDay(); // 0 = Sunday, 6 = Saturday
-  
-  // No service on weekends
-  if (day === 0 || day === 6) return false;
-  
-  const schedule = ROUTE_SCHEDULES[routeTag];
-  if (!schedule) return true; // Default to showing if unknown route
-  
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
-  const startMinutes = schedule.startHour * 60 + schedule.startMin;
-  const endMinutes = schedule.endHour * 60 + schedule.endMin;
-  
-  return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
-};
+import { matchVehicleToRoute } from '@/lib/mapMatching';
+import { buildBusJourney, getJourneyStopKeys } from '@/lib/busJourney';
+import { formatServiceHours, getRegularRouteHours, getRouteServiceStatus } from '@/lib/serviceHours';
+import { formatTimeOfDay } from '@/lib/timeOfDay';
 
 const Schedule = () => {
-  const [routes, setRoutes] = useState<Route[]>([]);
-  const [vehicles, setVehicles] = useState<VehicleLocation[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { routes, isLoading: loading } = useRouteConfig();
+  const { vehicles, lastUpdated } = useVehicles({ refreshInterval: 15000 });
   const [selectedRoute, setSelectedRoute] = useState<string | null>(null);
-  const [busPredictions, setBusPredictions] = useState<Map<string, StopPredictions[]>>(new Map());
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const [routeData, vehicleData] = await Promise.all([
-          fetchRouteConfig(),
-          fetchVehicleLocations(),
-        ]);
-        setRoutes(routeData);
-        setVehicles(vehicleData);
-      } catch (error) {
-        console.error('Error loading data:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    loadData();
-
-    // Refresh vehicles periodically
-    const interval = setInterval(async () => {
-      try {
-        const vehicleData = await fetchVehicleLocations();
-        setVehicles(vehicleData);
-      } catch (error) {
-        console.error('Error refreshing vehicles:', error);
-      }
-    }, 15000);
-
-    return () => clearInterval(interval);
-  }, []);
-
-  // Fetch predictions for stops along each bus's route
-  useEffect(() => {
-    const fetchBusPredictions = async () => {
-      const newPredictions = new Map<string, StopPredictions[]>();
-      
-      for (const vehicle of vehicles) {
-        const route = routes.find(r => r.tag === vehicle.routeTag);
-        if (!route) continue;
-        
-        const direction = route.directions.find(d => d.tag === vehicle.dirTag);
-        if (!direction || direction.stops.length === 0) continue;
-        
-        // Fetch predictions for first few stops to get timing info
-        try {
-          const stopTag = direction.stops[0];
-          const preds = await fetchPredictions(stopTag, route.tag);
-          newPredictions.set(`${vehicle.id}-${route.tag}`, preds);
-        } catch (error) {
-          console.error('Error fetching predictions:', error);
-        }
-      }
-      
-      setBusPredictions(newPredictions);
-    };
-    
-    if (vehicles.length > 0 && routes.length > 0) {
-      fetchBusPredictions();
-    }
+  // Predictions for every stop ahead of each active bus, for its timeline
+  const journeyStops = useMemo(() => {
+    const keys = new Map<string, StopRouteKey>();
+    vehicles.forEach(vehicle => {
+      const route = routes.find(r => r.tag === vehicle.routeTag);
+      if (!route) return;
+      getJourneyStopKeys(vehicle, route).forEach(key => {
+        keys.set(`${key.routeTag}|${key.stopTag}`, key);
+      });
+    });
+    return Array.from(keys.values());
   }, [vehicles, routes]);
 
+  const { predictions: journeyPredictions } = usePredictions(journeyStops);
+  const { travelTimes } = useTravelTimeModel();
+
   const getRouteVehicles = (routeTag: string) => {
     return vehicles.filter(v => v.routeTag === routeTag);
   };
 
-  const getBusJourney = (vehicle: VehicleLocation, route: Route): BusJourneyStop[] => {
-    const direction = route.directions.find(d => d.tag === vehicle.dirTag);
-    if (!direction || direction.stops.length === 0) return [];
-    
-    // Find the closest stop to the bus's current position (current stop)
-    let closestStopIndex = 0;
-    let minDistance = Infinity;
-    
-    direction.stops.forEach((stopTag, index) => {
-      const stop = route.stops.find(s => s.tag === stopTag);
-      if (stop) {
-        const distance = Math.sqrt(
-          Math.pow(stop.lat - vehicle.lat, 2) + Math.pow(stop.lon - vehicle.lon, 2)
-        );
-        if (distance < minDistance) {
-          minDistance = distance;
-          closestStopIndex = index;
-        }
-      }
-    });
-    
-    // Build journey from current stop through remaining stops
-    const journeyStops: BusJourneyStop[] = [];
-    const totalStops = direction.stops.length;
-    
-    // Calculate average time per stop (roughly 2-3 minutes between stops)
-    const avgMinutesPerStop = 2.5;
-    
-    for (let i = 0; i < totalStops; i++) {
-      const actualIndex = (closestStopIndex + i) % totalStops;
-      const stopTag = direction.stops[actualIndex];
-      const stop = route.stops.find(s => s.tag === stopTag);
-      
-      if (stop) {
-        let estimatedMinutes: number | null = null;
-        
-        if (i === 0) {
-          // Current stop
-          estimatedMinutes = 0;
-        } else {
-          // Estimate based on position in route
-          estimatedMinutes = Math.round(i * avgMinutesPerStop);
-        }
-        
-        journeyStops.push({
-          tag: stop.tag,
-          title: stop.title,
-          stopId: stop.stopId,
-          estimatedMinutes,
-          isCurrent: i === 0,
-        });
-      }
-    }
-    
-    return journeyStops;
-  };
-
   const formatClockTime = (date: Date): string => {
     return date.toLocaleTimeString('en-US', { 
       hour: 'numeric', 
@@ -190,6 +60,17 @@ const Schedule = () => {
     };
   };
 
+  // Feed predictions are precise to the minute, so no range
+  const formatLiveTime = (minutes: number | null): { clock: string; relative: string } => {
+    if (minutes === null) return { clock: '--', relative: '--' };
+    if (minutes === 0) return { clock: 'Now', relative: 'Arriving' };
+    
+    return {
+      clock: formatClockTime(new Date(Date.now() + minutes * 60000)),
+      relative: `${minutes} min`
+    };
+  };
+
   const displayedRoutes = selectedRoute 
     ? routes.filter(r => r.tag === selectedRoute)
     : routes;
@@ -219,7 +100,9 @@ const Schedule = () => {
             </Link>
             <div>
               <h1 className="text-lg font-semibold">Route Schedule</h1>
-              <p className="text-xs text-muted-foreground">View routes and stops</p>
+              <p className="text-xs text-muted-foreground">
+                View routes and stops{lastUpdated && ` · Updated ${lastUpdated.toLocaleTimeString()}`}
+              </p>
             </div>
           </div>
 
@@ -275,6 +158,7 @@ const Schedule = () => {
         {displayedRoutes.map(route => {
           const routeVehicles = getRouteVehicles(route.tag);
           const color = route.color === '000000' ? '6B7280' : route.color;
+          const status = getRouteServiceStatus(route.tag);
           
           return (
             <div key={route.tag} className="bg-card rounded-xl border border-border overflow-hidden">
@@ -298,10 +182,10 @@ const Schedule = () => {
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
-                  {!isRouteInService(route.tag) ? (
+                  {!status.inService ? (
                     <span className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-amber-500/20 text-amber-400 text-sm">
                       <Clock className="w-4 h-4" />
-                      Outside Hours
+                      {status.reason === 'before-hours' || status.reason === 'after-hours' ? 'Outside Hours' : 'Not Running Today'}
                     </span>
                   ) : routeVehicles.length > 0 ? (
                     <span className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-green-500/20 text-green-400 text-sm">
@@ -319,81 +203,60 @@ const Schedule = () => {
 
               {/* Operating Hours */}
               {(() => {
-                // Route-specific operating hours
-                const scheduleData: Record<string, { 
-                  firstBus: string; 
-                  lastBus: string; 
-                  frequency: { time: string; freq: string }[];
-                  startStop: string;
-                }> = {
-                  'red': { // Campus Circulator
-                    firstBus: '7:30 AM',
-                    lastBus: '5:30 PM',
-                    frequency: [
-                      { time: '7:30AM - 10:35AM', freq: '18 min' },
-                      { time: '10:35AM - 2:50PM', freq: '20 min' },
-                      { time: '2:50PM - 5:21PM', freq: '39 min' },
-                    ],
-                    startStop: 'Russellville Rd West Lot',
-                  },
-                  'white': { // South Campus
-                    firstBus: '7:15 AM',
-                    lastBus: '5:24 PM',
-                    frequency: [
-                      { time: '7:15AM - 3:00PM', freq: '17 min' },
-                      { time: '3:00PM - 5:24PM', freq: '35 min' },
-                    ],
-                    startStop: 'Campbell Lane Park & Ride',
-                  },
-                  'blue': { // Kentucky Street
-                    firstBus: '7:20 AM',
-                    lastBus: '5:30 PM',
-                    frequency: [
-                      { time: '7:20AM - 3:30PM', freq: '15 min' },
-                      { time: '3:30PM - 5:30PM', freq: '30 min' },
-                    ],
-                    startStop: 'Parking Structure 3',
-                  },
-                };
-                
-                const schedule = scheduleData[route.tag] || {
-                  firstBus: '7:00 AM',
-                  lastBus: '5:30 PM',
-                  frequency: [],
-                  startStop: 'Main Campus',
-                };
+                // Today's hours, or the usual ones on days the route doesn't run
+                const hours = status.hours ?? getRegularRouteHours(route.tag);
+                const event = status.scheduleInEffect?.event;
                 
                 return (
                   <div className="border-t border-border p-4 bg-secondary/20">
                     <h3 className="text-sm font-medium flex items-center gap-2 mb-3">
                       <Clock className="w-4 h-4 text-muted-foreground" />
                       Operating Hours
+                      {hours?.isSpecial && (
+                        <span className="text-xs font-normal px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-400">
+                          {hours.scheduleName}
+                        </span>
+                      )}
+                      {hours && (
+                        <Link
+                          to={`/timetable?route=${route.tag}`}
+                          className="ml-auto flex items-center gap-1 text-xs font-normal text-primary hover:underline"
+                        >
+                          <Printer className="w-3.5 h-3.5" />
+                          Printable timetable
+                        </Link>
+                      )}
                     </h3>
+                    {event?.note && (
+                      <p className="text-xs text-amber-200/90 mb-3">
+                        <span className="font-medium">{event.name}:</span> {event.note}
+                      </p>
+                    )}
                     <div className="grid grid-cols-2 gap-4 mb-3">
                       <div className="rounded-lg bg-card p-3 border border-border">
                         <p className="text-xs text-muted-foreground mb-1">First Bus</p>
-                        <p className="font-semibold text-green-400">{schedule.firstBus}</p>
+                        <p className="font-semibold text-green-400">{hours ? formatTimeOfDay(hours.start) : '--'}</p>
                         <p className="text-xs text-muted-foreground mt-1 truncate">
-                          {schedule.startStop}
+                          {hours?.startStop || 'Hours not listed'}
                         </p>
                       </div>
                       <div className="rounded-lg bg-card p-3 border border-border">
                         <p className="text-xs text-muted-foreground mb-1">Last Bus</p>
-                        <p className="font-semibold text-amber-400">{schedule.lastBus}</p>
+                        <p className="font-semibold text-amber-400">{hours ? formatTimeOfDay(hours.end) : '--'}</p>
                         <p className="text-xs text-muted-foreground mt-1">
                           End of service
                         </p>
                       </div>
                     </div>
                     
-                    {schedule.frequency.length > 0 && (
+                    {hours && hours.headways.length > 0 && (
                       <div className="rounded-lg bg-card p-3 border border-border mb-3">
                         <p className="text-xs text-muted-foreground mb-2">Service Frequency</p>
                         <div className="space-y-1">
-                          {schedule.frequency.map((f, i) => (
+                          {hours.headways.map((h, i) => (
                             <div key={i} className="flex justify-between text-xs">
-                              <span className="text-muted-foreground">{f.time}</span>
-                              <span className="font-medium">{f.freq}</span>
+                              <span className="text-muted-foreground">{formatServiceHours(h)}</span>
+                              <span className="font-medium">{h.minutes} min</span>
                             </div>
                           ))}
                         </div>
@@ -408,7 +271,7 @@ const Schedule = () => {
               })()}
 
               {/* Active buses - only show if route is in service */}
-              {isRouteInService(route.tag) && routeVehicles.length > 0 && (
+              {status.inService && routeVehicles.length > 0 && (
                 <div className="border-b border-border p-4 space-y-4">
                   <h3 className="text-sm font-medium flex items-center gap-2">
                     <Bus className="w-4 h-4" />
@@ -416,8 +279,9 @@ const Schedule = () => {
                   </h3>
                   {routeVehicles.map(vehicle => {
                     const speedMph = Math.round(vehicle.speedKmHr * 0.621371);
-                    const journey = getBusJourney(vehicle, route);
+                    const journey = buildBusJourney(vehicle, route, journeyPredictions, travelTimes);
                     const currentStop = journey.find(s => s.isCurrent);
+                    const routeProgress = matchVehicleToRoute(vehicle, route);
                     
                     return (
                       <div 
@@ -440,16 +304,33 @@ const Schedule = () => {
                               </span>
                             </div>
                           </div>
-                          {currentStop && (
+                          {currentStop ? (
                             <div className="text-right">
                               <p className="text-xs text-muted-foreground">Currently at</p>
                               <p className="text-sm font-medium text-primary truncate max-w-[150px]">
                                 {currentStop.title}
                               </p>
                             </div>
+                          ) : journey.length > 0 && (
+                            <div className="text-right">
+                              <p className="text-xs text-muted-foreground">Next stop</p>
+                              <p className="text-sm font-medium truncate max-w-[150px]">
+                                {journey[0].title}
+                              </p>
+                            </div>
                           )}
                         </div>
                         
+                        {/* Progress along the route */}
+                        {routeProgress && (
+                          <div className="h-1 bg-muted">
+                            <div
+                              className="h-full transition-all"
+                              style={{ width: `${Math.round(routeProgress.progress * 100)}%`, backgroundColor: `#${color}` }}
+                            />
+                          </div>
+                        )}
+                        
                         {/* Journey stops */}
                         <div className="relative px-4 py-2 max-h-[300px] overflow-y-auto">
                           <div 
@@ -488,10 +369,15 @@ const Schedule = () => {
                               )}>
                                 {stop.isCurrent ? (
                                   <span>Now</span>
+                                ) : stop.isLive ? (
+                                  <>
+                                    <div className="font-medium text-foreground">{formatLiveTime(stop.estimatedMinutes).clock}</div>
+                                    <div className="opacity-70">Live · {formatLiveTime(stop.estimatedMinutes).relative}</div>
+                                  </>
                                 ) : (
                                   <>
                                     <div className="font-medium">{formatTimeRange(stop.estimatedMinutes).clock}</div>
-                                    <div className="opacity-70">{formatTimeRange(stop.estimatedMinutes).relative}</div>
+                                    <div className="opacity-70">Est. · {formatTimeRange(stop.estimatedMinutes).relative}</div>
                                   </>
                                 )}
                               </div>
@@ -501,7 +387,9 @@ const Schedule = () => {
                         
                         <div className="px-4 py-2 bg-muted/30 border-t border-border">
                           <p className="text-xs text-muted-foreground text-center">
-                            Times are estimates with ±2 minute margin
+                            {journey.some(s => s.isLive)
+                              ? 'Live times are feed predictions for this bus; estimates are ±2 minutes'
+                              : 'No predictions for this bus yet; times are estimates with ±2 minute margin'}
                           </p>
                         </div>
                       </div>
@@ -0,0 +1,206 @@
+import { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useRouteConfig } from '@/hooks/use-transit';
+import { useTravelTimeModel } from '@/hooks/use-travel-times';
+import { ArrowLeft, Bus, Printer, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { RouteTimetable, buildTimetable } from '@/lib/timetable';
+import { formatServiceHours, getNextServiceStart, getRegularRouteHours, getRouteHours } from '@/lib/serviceHours';
+import { formatTimeOfDay, formatWeekdays } from '@/lib/timeOfDay';
+
+// Stops run down the page and trips across it; this many trips fit across a
+// landscape page, and later trips continue on the next page
+const TRIPS_PER_PAGE = 12;
+
+// A timetable's trips split into page-sized runs
+const paginateTrips = (timetable: RouteTimetable) => {
+  const pages: { first: number; trips: RouteTimetable['trips'] }[] = [];
+  for (let first = 0; first < timetable.trips.length; first += TRIPS_PER_PAGE) {
+    pages.push({ first, trips: timetable.trips.slice(first, first + TRIPS_PER_PAGE) });
+  }
+  return pages;
+};
+
+const Timetable = () => {
+  const { routes, isLoading: loading } = useRouteConfig();
+  const { travelTimes } = useTravelTimeModel();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const route = routes.find(r => r.tag === searchParams.get('route')) || routes[0];
+
+  // Today's hours if the route runs today, otherwise those of its next service day
+  const { day, hours } = useMemo(() => {
+    const today = new Date();
+    if (!route) return { day: today, hours: null };
+    const todayHours = getRouteHours(route.tag, today);
+    if (todayHours) return { day: today, hours: todayHours };
+    const next = getNextServiceStart(route.tag, today);
+    const nextHours = next && getRouteHours(route.tag, next.at);
+    if (next && nextHours) return { day: next.at, hours: nextHours };
+    return { day: today, hours: getRegularRouteHours(route.tag) };
+  }, [route]);
+
+  const timetables = useMemo(() => {
+    if (!route || !hours) return [];
+    return route.directions
+      .filter(d => d.useForUI)
+      .map(d => buildTimetable(route, d.tag, hours, travelTimes, day))
+      .filter((t): t is RouteTimetable => t !== null);
+  }, [route, hours, travelTimes, day]);
+
+  const handlePrint = () => {
+    window.print();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <div className="flex flex-col items-center gap-4">
+          <Bus className="w-12 h-12 text-primary animate-pulse" />
+          <p className="text-muted-foreground">Loading timetable...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const color = route ? (route.color === '000000' ? '6B7280' : route.color) : '6B7280';
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-10 border-b border-border bg-card/80 backdrop-blur-md">
+        <div className="px-4 py-3">
+          <div className="flex items-center gap-3 mb-4">
+            <Link
+              to="/schedule"
+              className="p-2 rounded-lg hover:bg-secondary transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <div>
+              <h1 className="text-lg font-semibold">Timetable</h1>
+              <p className="text-xs text-muted-foreground">Approximate departures to print or save as PDF</p>
+            </div>
+            <div className="ml-auto flex gap-2">
+              <Button variant="outline" size="sm" onClick={handlePrint} disabled={timetables.length === 0}>
+                <Printer className="w-4 h-4 mr-2" />
+                Print / PDF
+              </Button>
+            </div>
+          </div>
+
+          {/* Route picker */}
+          <div className="flex gap-2 overflow-x-auto pb-2 -mx-4 px-4 scrollbar-hide">
+            {routes.map(r => (
+              <button
+                key={r.tag}
+                onClick={() => setSearchParams({ route: r.tag }, { replace: true })}
+                className={cn(
+                  "px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-colors",
+                  route?.tag === r.tag
+                    ? "text-primary-foreground"
+                    : "bg-secondary text-muted-foreground hover:text-foreground"
+                )}
+                style={{
+                  backgroundColor: route?.tag === r.tag
+                    ? `#${r.color === '000000' ? '6B7280' : r.color}`
+                    : undefined
+                }}
+              >
+                {r.title}
+              </button>
+            ))}
+          </div>
+        </div>
+      </header>
+
+      <div className="p-4 space-y-6 print:p-0">
+        {route && !hours && (
+          <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+            <Clock className="w-12 h-12 mb-4 opacity-50" />
+            <p>No service hours are listed for {route.title}, so there's no timetable to build.</p>
+          </div>
+        )}
+
+        {route && hours && timetables.flatMap(timetable => {
+          const pages = paginateTrips(timetable);
+          return pages.map((page, pageIndex) => (
+            <section
+              key={`${timetable.dirTag}-${page.first}`}
+              className="timetable-sheet bg-card rounded-xl border border-border overflow-hidden print:break-after-page"
+            >
+              <div
+                className="p-4 flex items-center gap-3"
+                style={{ backgroundColor: `#${color}15` }}
+              >
+                <div
+                  className="w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0"
+                  style={{ backgroundColor: `#${color}` }}
+                >
+                  <Bus className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="font-semibold">{route.title} · {timetable.directionTitle}</h2>
+                  <p className="text-xs text-muted-foreground">
+                    {hours.isSpecial ? hours.scheduleName : formatWeekdays(hours.days)} · {formatServiceHours(hours)}
+                  </p>
+                </div>
+                {pages.length > 1 && (
+                  <p className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                    Page {pageIndex + 1} of {pages.length}
+                  </p>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs border-collapse">
+                  <tbody>
+                    {timetable.stops.map((stop, i) => (
+                      <tr
+                        key={`${stop.tag}-${i}`}
+                        className={cn("border-b border-border last:border-0", i % 2 === 1 && "bg-secondary/30")}
+                      >
+                        <th scope="row" className="px-2 py-1 text-left font-medium min-w-[140px]">
+                          {stop.shortTitle || stop.title}
+                        </th>
+                        {page.trips.map((trip, j) => (
+                          <td key={j} className="px-2 py-1 whitespace-nowrap tabular-nums">
+                            {formatTimeOfDay(trip.times[i])}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <p className="p-3 text-[10px] text-muted-foreground border-t border-border">
+                Times are approximate and can run several minutes early or late.{' '}
+                {timetable.observedShare > 0
+                  ? `Based on observed bus travel times for ${Math.round(timetable.observedShare * 100)}% of the route.`
+                  : 'Based on distance between stops.'}{' '}
+                No service during breaks or holidays. Live arrivals: topperbus.lovable.app
+              </p>
+            </section>
+          ));
+        })}
+      </div>
+
+      {/* Print styles */}
+      <style>{`
+        @media print {
+          @page { size: landscape; margin: 0.4in; }
+          body { background: white !important; }
+          header { display: none !important; }
+          .timetable-sheet, .timetable-sheet * { color: black !important; border-color: #d1d5db !important; }
+          .timetable-sheet { background: white !important; border: 0 !important; border-radius: 0 !important; }
+          .timetable-sheet tbody tr:nth-child(even) { background: #f3f4f6 !important; }
+          .timetable-sheet tr { break-inside: avoid; }
+          .timetable-sheet .overflow-x-auto { overflow: visible !important; }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default Timetable;
@@ -68,3 +68,8 @@ export interface StopPredictions {
   routeTitle: string;
   directions: PredictionDirection[];
 }
+
+export interface StopRouteKey {
+  stopTag: string;
+  routeTag: string;
+}
@@ -0,0 +1,344 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.7";
+import { getPredictionSource, StopRouteKey } from "./predictions.ts";
+
+// Web Push arrival alerts.
+// The app calls this with `subscribe`, `cancel` and `list` to manage a browser's
+// alert rules; pg_cron calls it with `poll` every minute (see the
+// arrival_alert_push migration) to push the alerts whose bus is close enough.
+//
+// Secrets: VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY (`npx web-push generate-vapid-keys`;
+// the public key is also the app's VITE_VAPID_PUBLIC_KEY), optional VAPID_SUBJECT,
+// ARRIVAL_ALERTS_SECRET for the cron call (required: polls are refused without it),
+// and PREDICTION_SOURCE=fake for local testing (see predictions.ts).
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Keep one browser from piling up rules
+const MAX_RULES_PER_SUBSCRIPTION = 10;
+// A prediction slightly in the past is still the bus arriving
+const PAST_ARRIVAL_GRACE_MS = 60000;
+// Pushes that can't be delivered within this are dropped (the bus will have come)
+const PUSH_TTL_SECS = 120;
+// Subscribes per client IP per window; a rider sets a handful of alerts at most
+const SUBSCRIBE_RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const MAX_SUBSCRIBES_PER_WINDOW = 10;
+
+// Hosts of the browser push services (Chrome/FCM, Firefox, Safari, Edge/WNS).
+// The poll posts to every stored endpoint, so anything else is refused rather
+// than letting callers point it at arbitrary URLs.
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'updates.push.services.mozilla.com',
+  'web.push.apple.com',
+];
+const PUSH_SERVICE_HOST_SUFFIXES = [
+  '.push.services.mozilla.com',
+  '.push.apple.com',
+  '.notify.windows.com',
+];
+
+interface PushSubscriptionBody {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+interface RuleBody {
+  stopTag: string;
+  stopId: string;
+  stopTitle: string;
+  routeTag: string;
+  routeTitle: string;
+  leadMinutes: number;
+}
+
+interface RuleRow {
+  id: string;
+  stop_tag: string;
+  stop_id: string;
+  stop_title: string;
+  route_tag: string;
+  route_title: string;
+  lead_minutes: number;
+  push_subscriptions: { id: string; endpoint: string; p256dh: string; auth: string };
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isShortString = (value: unknown, max = 200): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= max;
+
+const isPushServiceEndpoint = (endpoint: string): boolean => {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  const host = url.hostname.toLowerCase();
+  return url.protocol === 'https:' && !url.port &&
+    (PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_HOST_SUFFIXES.some(suffix => host.endsWith(suffix)));
+};
+
+const isValidSubscription = (value: unknown): value is PushSubscriptionBody => {
+  const sub = value as PushSubscriptionBody;
+  return !!sub &&
+    isShortString(sub.endpoint, 1000) && isPushServiceEndpoint(sub.endpoint) &&
+    !!sub.keys && isShortString(sub.keys.p256dh, 200) && isShortString(sub.keys.auth, 100);
+};
+
+const isValidRule = (value: unknown): value is RuleBody => {
+  const rule = value as RuleBody;
+  return !!rule &&
+    isShortString(rule.stopTag, 50) && isShortString(rule.stopId, 50) && isShortString(rule.stopTitle) &&
+    isShortString(rule.routeTag, 50) && isShortString(rule.routeTitle) &&
+    Number.isInteger(rule.leadMinutes) && rule.leadMinutes >= 1 && rule.leadMinutes <= 30;
+};
+
+// Same scheme as calendar-reminder: "Bearer <secret>" or the bare secret.
+// The function is public (verify_jwt = false), so without a secret nobody may poll.
+const isAuthorizedPoll = (req: Request): boolean => {
+  const expectedSecret = Deno.env.get('ARRIVAL_ALERTS_SECRET');
+  if (!expectedSecret) {
+    console.error('ARRIVAL_ALERTS_SECRET not configured - refusing poll');
+    return false;
+  }
+  const authHeader = req.headers.get('Authorization');
+  return !!authHeader && authHeader.replace('Bearer ', '').trim() === expectedSecret;
+};
+
+// Simple in-memory rate limiter, as in send-feedback (resets on cold start)
+const subscribeRateLimits = new Map<string, { count: number; resetTime: number }>();
+
+const isSubscribeRateLimited = (ip: string): boolean => {
+  const now = Date.now();
+  const record = subscribeRateLimits.get(ip);
+  if (!record || now > record.resetTime) {
+    subscribeRateLimits.set(ip, { count: 1, resetTime: now + SUBSCRIBE_RATE_LIMIT_WINDOW_MS });
+    return false;
+  }
+  if (record.count >= MAX_SUBSCRIBES_PER_WINDOW) return true;
+  record.count++;
+  return false;
+};
+
+const getClientIp = (req: Request): string =>
+  req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+  req.headers.get('cf-connecting-ip') ||
+  'unknown';
+
+const getDatabase = () =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+
+type Database = ReturnType<typeof getDatabase>;
+
+async function subscribe(db: Database, subscription: PushSubscriptionBody, rule: RuleBody) {
+  const { data: sub, error: subError } = await db
+    .from('push_subscriptions')
+    .upsert(
+      { endpoint: subscription.endpoint, p256dh: subscription.keys.p256dh, auth: subscription.keys.auth, last_used_at: new Date().toISOString() },
+      { onConflict: 'endpoint' }
+    )
+    .select('id')
+    .single();
+  if (subError) throw subError;
+
+  const { count } = await db
+    .from('arrival_alert_rules')
+    .select('id', { count: 'exact', head: true })
+    .eq('subscription_id', sub.id);
+  if ((count ?? 0) >= MAX_RULES_PER_SUBSCRIPTION) {
+    return json({ error: 'too_many_alerts', message: 'Too many active alerts' }, 429);
+  }
+
+  const { data: created, error: ruleError } = await db
+    .from('arrival_alert_rules')
+    .insert({
+      subscription_id: sub.id,
+      stop_tag: rule.stopTag,
+      stop_id: rule.stopId,
+      stop_title: rule.stopTitle,
+      route_tag: rule.routeTag,
+      route_title: rule.routeTitle,
+      lead_minutes: rule.leadMinutes,
+    })
+    .select('id')
+    .single();
+  if (ruleError) throw ruleError;
+
+  return json({ success: true, ruleId: created.id });
+}
+
+// The endpoint is only known to its browser, so it doubles as the credential for its rules
+async function findSubscriptionId(db: Database, endpoint: string): Promise<string | null> {
+  const { data } = await db.from('push_subscriptions').select('id').eq('endpoint', endpoint).maybeSingle();
+  return data?.id ?? null;
+}
+
+async function cancel(db: Database, endpoint: string, ruleId: string) {
+  const subscriptionId = await findSubscriptionId(db, endpoint);
+  if (subscriptionId) {
+    const { error } = await db.from('arrival_alert_rules').delete().eq('id', ruleId).eq('subscription_id', subscriptionId);
+    if (error) throw error;
+  }
+  return json({ success: true });
+}
+
+async function list(db: Database, endpoint: string) {
+  const subscriptionId = await findSubscriptionId(db, endpoint);
+  if (!subscriptionId) return json({ ruleIds: [] });
+
+  const { data, error } = await db
+    .from('arrival_alert_rules')
+    .select('id')
+    .eq('subscription_id', subscriptionId)
+    .gt('expires_at', new Date().toISOString());
+  if (error) throw error;
+  return json({ ruleIds: data.map(r => r.id) });
+}
+
+async function poll(db: Database) {
+  const { error: expireError, count: expired } = await db
+    .from('arrival_alert_rules')
+    .delete({ count: 'exact' })
+    .lt('expires_at', new Date().toISOString());
+  if (expireError) throw expireError;
+
+  const { data: rules, error } = await db
+    .from('arrival_alert_rules')
+    .select('id, stop_tag, stop_id, stop_title, route_tag, route_title, lead_minutes, push_subscriptions(id, endpoint, p256dh, auth)');
+  if (error) throw error;
+  if (!rules || rules.length === 0) return json({ success: true, checked: 0, sent: 0, expired });
+
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  if (!publicKey || !privateKey) {
+    console.error('VAPID keys not configured');
+    return json({ success: false, error: 'Service temporarily unavailable' }, 503);
+  }
+  webpush.setVapidDetails(Deno.env.get('VAPID_SUBJECT') || 'mailto:transit@wku.edu', publicKey, privateKey);
+
+  const keys = new Map<string, StopRouteKey>();
+  (rules as RuleRow[]).forEach(r => keys.set(`${r.route_tag}|${r.stop_tag}`, { stopTag: r.stop_tag, routeTag: r.route_tag }));
+
+  const source = getPredictionSource();
+  const arrivals = await source.arrivals(Array.from(keys.values()));
+  const now = Date.now();
+
+  const fired: string[] = [];
+  const goneSubscriptions = new Set<string>();
+
+  for (const rule of rules as RuleRow[]) {
+    const next = arrivals
+      .filter(a => a.routeTag === rule.route_tag && a.stopTag === rule.stop_tag && a.epochTime >= now - PAST_ARRIVAL_GRACE_MS)
+      .sort((a, b) => a.epochTime - b.epochTime)[0];
+    if (!next || next.epochTime - now > rule.lead_minutes * 60000) continue;
+
+    const sub = rule.push_subscriptions;
+    if (goneSubscriptions.has(sub.id)) continue;
+
+    const minutes = Math.max(0, Math.round((next.epochTime - now) / 60000));
+    const payload = {
+      title: `${rule.route_title} bus ${minutes === 0 ? 'arriving now' : `${minutes} min away`}`,
+      body: `Bus #${next.vehicle} to ${rule.stop_title}`,
+      ruleId: rule.id,
+      url: `/?stop=${encodeURIComponent(rule.stop_id)}`,
+    };
+
+    try {
+      await webpush.sendNotification(
+        { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+        JSON.stringify(payload),
+        { TTL: PUSH_TTL_SECS, urgency: 'high' }
+      );
+      fired.push(rule.id);
+    } catch (error: unknown) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      // The browser unsubscribed or the subscription expired
+      if (statusCode === 404 || statusCode === 410) {
+        goneSubscriptions.add(sub.id);
+      } else {
+        console.error('Web Push error:', statusCode, error);
+      }
+    }
+  }
+
+  // Alerts fire once
+  if (fired.length > 0) {
+    await db.from('arrival_alert_rules').delete().in('id', fired);
+  }
+  if (goneSubscriptions.size > 0) {
+    await db.from('push_subscriptions').delete().in('id', Array.from(goneSubscriptions));
+  }
+
+  console.log(`Checked ${rules.length} alerts against ${source.id}: ${fired.length} sent, ${expired ?? 0} expired`);
+  return json({ success: true, checked: rules.length, sent: fired.length, expired, removedSubscriptions: goneSubscriptions.size });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: 'Invalid JSON body' }, 400);
+    }
+
+    const db = getDatabase();
+
+    switch (body?.action) {
+      case 'poll':
+        if (!isAuthorizedPoll(req)) {
+          console.error('Invalid authorization token');
+          return json({ error: 'Unauthorized' }, 401);
+        }
+        return await poll(db);
+
+      case 'subscribe': {
+        const clientIp = getClientIp(req);
+        if (isSubscribeRateLimited(clientIp)) {
+          console.log(`Rate limited subscribe from IP: ${clientIp}`);
+          return json({ error: 'rate_limited', message: 'Too many requests. Please try again later.' }, 429);
+        }
+        if (!isValidSubscription(body.subscription) || !isValidRule(body.rule)) {
+          return json({ error: 'Invalid subscription or alert' }, 400);
+        }
+        return await subscribe(db, body.subscription, body.rule);
+      }
+
+      case 'cancel':
+        if (!isShortString(body.endpoint, 1000) || typeof body.ruleId !== 'string' || !UUID_PATTERN.test(body.ruleId)) {
+          return json({ error: 'Invalid request body' }, 400);
+        }
+        return await cancel(db, body.endpoint, body.ruleId);
+
+      case 'list':
+        if (!isShortString(body.endpoint, 1000)) {
+          return json({ error: 'Invalid request body' }, 400);
+        }
+        return await list(db, body.endpoint);
+
+      default:
+        return json({ error: 'Unknown action' }, 400);
+    }
+  } catch (error: unknown) {
+    console.error('Error in arrival-alerts function:', error);
+    return json({ success: false, error: 'An unexpected error occurred' }, 500);
+  }
+});
@@ -1,10 +1,105 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { extractServicePeriods, parseRegistrarCalendar } from "./registrar.ts";
+import {
+  GitHubConfig,
+  describePeriod,
+  diffCalendars,
+  fetchCurrentCalendar,
+  mergeCalendar,
+  openCalendarPullRequest,
+} from "./proposal.ts";
+
+// Academic calendar updates.
+// Fetches the registrar's academic calendar, extracts the terms and breaks, and
+// opens a pull request updating src/data/serviceCalendar.json, posting the diff
+// to Discord for approval. When the calendar can't be read, or GitHub isn't
+// configured, it falls back to a Discord reminder to update the file by hand.
+//
+// Secrets: DISCORD_WEBHOOK_URL; CALENDAR_REMINDER_SECRET for the cron call (required,
+// including for local fixture runs: requests are refused without it);
+// GITHUB_TOKEN (contents and pull requests write), GITHUB_REPO ("owner/name")
+// and optional GITHUB_BASE_BRANCH for proposals; optional REGISTRAR_CALENDAR_URL
+// (an HTML page or ICS feed). CALENDAR_SOURCE=fixture (or fixture-ics) reads the
+// sample in fixtures/ instead and never opens a pull request.
+// POST {"dryRun": true} returns the proposal without opening or posting anything.
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const DEFAULT_REGISTRAR_URL = 'https://www.wku.edu/registrar/academic_calendars/';
+const CALENDAR_FILE = 'src/data/serviceCalendar.json';
+// Discord embed descriptions are capped at 4096 characters
+const MAX_DIFF_CHARS = 3500;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const loadRegistrarCalendar = async (): Promise<{ text: string; sourceUrl: string; isFixture: boolean }> => {
+  const source = Deno.env.get('CALENDAR_SOURCE');
+  if (source === 'fixture' || source === 'fixture-ics') {
+    const file = source === 'fixture' ? 'registrar-calendar.html' : 'registrar-calendar.ics';
+    const text = await Deno.readTextFile(new URL(`./fixtures/${file}`, import.meta.url));
+    return { text, sourceUrl: `fixtures/${file}`, isFixture: true };
+  }
+
+  const sourceUrl = Deno.env.get('REGISTRAR_CALENDAR_URL') || DEFAULT_REGISTRAR_URL;
+  const response = await fetch(sourceUrl, { headers: { 'User-Agent': 'topperbus-calendar-reminder' } });
+  if (!response.ok) throw new Error(`Registrar calendar ${response.status}`);
+  return { text: await response.text(), sourceUrl, isFixture: false };
+};
+
+const getGitHubConfig = (): GitHubConfig | null => {
+  const token = Deno.env.get('GITHUB_TOKEN');
+  const repo = Deno.env.get('GITHUB_REPO');
+  if (!token || !repo) return null;
+  return { token, repo, baseBranch: Deno.env.get('GITHUB_BASE_BRANCH') || 'main' };
+};
+
+const postToDiscord = async (webhookUrl: string, embed: Record<string, unknown>) => {
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      embeds: [{ color: 0xC62828, footer: { text: "WKU Transit App" }, timestamp: new Date().toISOString(), ...embed }],
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Discord API error: ${await response.text()}`);
+  }
+};
+
+const codeBlock = (lines: string[], language = '') => {
+  let text = lines.join('\n');
+  if (text.length > MAX_DIFF_CHARS) {
+    text = `${text.slice(0, MAX_DIFF_CHARS)}\n... (truncated)`;
+  }
+  return `\`\`\`${language}\n${text}\n\`\`\``;
+};
+
+// The original yearly nag, for when nothing could be proposed automatically
+const manualReminder = (reason: string, extracted: string[] = []) => ({
+  title: "🚌 WKU Bus Calendar Update Reminder",
+  description: `Time to check the WKU transit academic calendar dates.\n\n${reason}` +
+    (extracted.length > 0 ? `\n\nDates found on the registrar's calendar:\n${codeBlock(extracted)}` : ''),
+  fields: [
+    {
+      name: "📅 Calendar Source",
+      value: "[WKU Academic Calendar](https://www.wku.edu/registrar/academic_calendars/)",
+      inline: false
+    },
+    {
+      name: "📝 File to Update",
+      value: `\`${CALENDAR_FILE}\` (check it with \`npm run validate-calendar\`)`,
+      inline: false
+    }
+  ],
+});
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -14,98 +109,94 @@ serve(async (req) => {
     // Verify authorization - this function should only be called by cron jobs or authenticated admins
     const authHeader = req.headers.get('Authorization');
     const expectedSecret = Deno.env.get('CALENDAR_REMINDER_SECRET');
-    
-    // If a secret is configured, require it for authentication
-    if (expectedSecret) {
-      if (!authHeader) {
-        console.error('Missing Authorization header');
-        return new Response(
-          JSON.stringify({ error: 'Unauthorized' }),
-          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      // Accept either "Bearer <secret>" or just the secret directly
-      const providedToken = authHeader.replace('Bearer ', '').trim();
-      
-      if (providedToken !== expectedSecret) {
-        console.error('Invalid authorization token');
-        return new Response(
-          JSON.stringify({ error: 'Unauthorized' }),
-          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-    } else {
-      // If no secret is configured, check for Supabase service role key
-      const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
-      if (!authHeader || !authHeader.includes(supabaseAnonKey || '')) {
-        console.warn('CALENDAR_REMINDER_SECRET not configured - using fallback auth check');
-      }
+
+    // The function is public (verify_jwt = false) and can open pull requests
+    // and post to Discord, so without a configured secret every call is refused
+    if (!expectedSecret) {
+      console.error('CALENDAR_REMINDER_SECRET not configured - refusing request');
+      return json({ error: 'Unauthorized' }, 401);
+    }
+    // Accept either "Bearer <secret>" or just the secret directly
+    if (!authHeader || authHeader.replace('Bearer ', '').trim() !== expectedSecret) {
+      console.error('Invalid authorization token');
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    let dryRun = false;
+    try {
+      dryRun = (await req.json())?.dryRun === true;
+    } catch {
+      // No body: a normal scheduled run
     }
 
     const discordWebhookUrl = Deno.env.get('DISCORD_WEBHOOK_URL');
-    
-    if (!discordWebhookUrl) {
+    if (!discordWebhookUrl && !dryRun) {
       console.error('DISCORD_WEBHOOK_URL not configured');
-      return new Response(
-        JSON.stringify({ success: false, error: 'Service temporarily unavailable' }),
-        { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return json({ success: false, error: 'Service temporarily unavailable' }, 503);
     }
 
-    const currentYear = new Date().getFullYear();
-    
-    const message = {
-      embeds: [{
-        title: "🚌 WKU Bus Calendar Update Reminder",
-        description: `**Happy New Year ${currentYear}!**\n\nTime to update the WKU transit academic calendar dates.`,
-        color: 0xC62828,
-        fields: [
-          {
-            name: "📅 Calendar Source",
-            value: "[WKU Academic Calendar](https://www.wku.edu/registrar/academic_calendars/)",
-            inline: false
-          },
-          {
-            name: "📝 File to Update",
-            value: "`src/lib/academicCalendar.ts`",
-            inline: false
-          }
-        ],
-        footer: { text: "WKU Transit App" },
-        timestamp: new Date().toISOString()
-      }]
-    };
-
-    console.log('Sending Discord notification...');
-    
-    const discordResponse = await fetch(discordWebhookUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(message),
-    });
+    let registrar: Awaited<ReturnType<typeof loadRegistrarCalendar>>;
+    try {
+      registrar = await loadRegistrarCalendar();
+    } catch (error) {
+      console.error('Could not fetch the registrar calendar:', error);
+      if (!dryRun) await postToDiscord(discordWebhookUrl!, manualReminder("The registrar's calendar couldn't be fetched automatically."));
+      return json({ success: true, proposed: false, reason: 'fetch_failed' });
+    }
+    // Fixtures are for testing the extraction, never for real proposals
+    dryRun = dryRun || registrar.isFixture;
+
+    const extracted = extractServicePeriods(parseRegistrarCalendar(registrar.text));
+    const extractedLines = [
+      ...extracted.terms.map(t => describePeriod('Term', t)),
+      ...extracted.breaks.map(b => describePeriod('Break', b)),
+    ];
+    console.log(`Extracted ${extracted.terms.length} terms and ${extracted.breaks.length} breaks from ${registrar.sourceUrl}`);
+
+    if (extracted.terms.length === 0 && extracted.breaks.length === 0) {
+      if (!dryRun) await postToDiscord(discordWebhookUrl!, manualReminder("No dates could be read from the registrar's calendar; its layout may have changed."));
+      return json({ success: true, proposed: false, reason: 'nothing_extracted' });
+    }
 
-    if (!discordResponse.ok) {
-      const errorText = await discordResponse.text();
-      console.error('Discord API error:', errorText);
-      return new Response(
-        JSON.stringify({ success: false, error: 'Failed to send notification' }),
-        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    const githubConfig = getGitHubConfig();
+    if (!githubConfig) {
+      if (dryRun) return json({ success: true, dryRun, extracted });
+      await postToDiscord(discordWebhookUrl!, manualReminder('GitHub isn\'t configured, so no update was proposed.', extractedLines));
+      return json({ success: true, proposed: false, reason: 'github_not_configured' });
     }
 
-    console.log('Discord notification sent successfully');
-    
-    return new Response(
-      JSON.stringify({ success: true, message: 'Calendar reminder sent to Discord' }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-    
+    const { calendar: current, sha } = await fetchCurrentCalendar(githubConfig);
+    const proposed = mergeCalendar(current, extracted);
+    const diff = diffCalendars(current, proposed);
+
+    if (dryRun) return json({ success: true, dryRun, extracted, diff, proposed });
+
+    if (diff.length === 0) {
+      console.log('Service calendar already matches the registrar');
+      return json({ success: true, proposed: false, reason: 'up_to_date' });
+    }
+
+    const pull = await openCalendarPullRequest(githubConfig, proposed, sha, diff, registrar.sourceUrl);
+    if (pull.alreadyOpen) {
+      console.log(`Calendar update already proposed: ${pull.url}`);
+      return json({ success: true, proposed: false, reason: 'already_open', pullRequest: pull.url });
+    }
+
+    await postToDiscord(discordWebhookUrl!, {
+      title: "🚌 Proposed WKU Bus Calendar Update",
+      url: pull.url,
+      description: `New dates from the registrar's calendar. Review them and merge the pull request to approve.\n\n${codeBlock(diff, 'diff')}`,
+      fields: [
+        { name: "🔀 Pull Request", value: pull.url, inline: false },
+        { name: "📅 Calendar Source", value: registrar.sourceUrl, inline: false },
+      ],
+    });
+
+    console.log(`Proposed calendar update: ${pull.url}`);
+    return json({ success: true, proposed: true, pullRequest: pull.url, changes: diff.length });
+
   } catch (error: unknown) {
     console.error('Error in calendar-reminder function:', error);
-    return new Response(
-      JSON.stringify({ success: false, error: 'An unexpected error occurred' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return json({ success: false, error: 'An unexpected error occurred' }, 500);
   }
 });
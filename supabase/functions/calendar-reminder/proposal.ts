@@ -0,0 +1,189 @@
+import { CalendarPeriod, ExtractedPeriods } from "./registrar.ts";
+
+// Turning extracted registrar dates into a reviewable change to
+// src/data/serviceCalendar.json: merge them into the current calendar, describe
+// the difference, and open a pull request for a maintainer to approve by merging.
+
+const CALENDAR_PATH = 'src/data/serviceCalendar.json';
+
+/** The calendar file's shape (see src/lib/serviceCalendar.ts) */
+export interface ServiceCalendar {
+  version: number;
+  source: string;
+  serviceDays: number[];
+  terms: CalendarPeriod[];
+  breaks: CalendarPeriod[];
+  exceptions: { date: string; name: string; service: boolean }[];
+  specialEvents: { date: string; name: string; note: string }[];
+}
+
+export interface GitHubConfig {
+  token: string;
+  /** "owner/name" */
+  repo: string;
+  baseBranch: string;
+}
+
+const byStart = (a: CalendarPeriod, b: CalendarPeriod) => a.start.localeCompare(b.start);
+
+/**
+ * The current calendar with everything from the earliest extracted date on
+ * replaced by the extracted terms and breaks. Earlier history, service days,
+ * exceptions and special events are kept.
+ */
+export const mergeCalendar = (current: ServiceCalendar, extracted: ExtractedPeriods): ServiceCalendar => {
+  const extractedStarts = [...extracted.terms, ...extracted.breaks].map(p => p.start).sort();
+  if (extractedStarts.length === 0) return current;
+  const from = extractedStarts[0];
+
+  return {
+    ...current,
+    terms: [...current.terms.filter(t => t.start < from), ...extracted.terms].sort(byStart),
+    breaks: [...current.breaks.filter(b => b.start < from), ...extracted.breaks].sort(byStart),
+  };
+};
+
+/** One period as a line, e.g. "Break: Fall Break (2026-10-08 to 2026-10-09)" */
+export const describePeriod = (kind: string, period: CalendarPeriod) => `${kind}: ${period.name} (${period.start} to ${period.end})`;
+
+/** Added and removed terms and breaks as diff lines ("+ ..." / "- ..."), in date order */
+export const diffCalendars = (current: ServiceCalendar, proposed: ServiceCalendar): string[] => {
+  const lines: { start: string; line: string }[] = [];
+  const compare = (kind: string, before: CalendarPeriod[], after: CalendarPeriod[]) => {
+    const key = (p: CalendarPeriod) => `${p.name}|${p.start}|${p.end}`;
+    const beforeKeys = new Set(before.map(key));
+    const afterKeys = new Set(after.map(key));
+    before.filter(p => !afterKeys.has(key(p))).forEach(p => lines.push({ start: p.start, line: `- ${describePeriod(kind, p)}` }));
+    after.filter(p => !beforeKeys.has(key(p))).forEach(p => lines.push({ start: p.start, line: `+ ${describePeriod(kind, p)}` }));
+  };
+  compare('Term', current.terms, proposed.terms);
+  compare('Break', current.breaks, proposed.breaks);
+  return lines.sort((a, b) => a.start.localeCompare(b.start) || a.line.localeCompare(b.line)).map(l => l.line);
+};
+
+/** The calendar file as formatted in the repo: one period per line */
+export const formatCalendarFile = (calendar: ServiceCalendar): string => {
+  const periods = (list: CalendarPeriod[]) =>
+    list.map(p => `    { "name": ${JSON.stringify(p.name)}, "start": "${p.start}", "end": "${p.end}" }`).join(',\n');
+  const items = (list: unknown[]) => list.length === 0 ? '[]' : `[\n${list.map(i => `    ${JSON.stringify(i)}`).join(',\n')}\n  ]`;
+
+  return `{
+  "version": ${calendar.version},
+  "source": ${JSON.stringify(calendar.source)},
+  "serviceDays": ${JSON.stringify(calendar.serviceDays).replace(/,/g, ', ')},
+  "terms": [
+${periods(calendar.terms)}
+  ],
+  "breaks": [
+${periods(calendar.breaks)}
+  ],
+  "exceptions": ${items(calendar.exceptions)},
+  "specialEvents": ${items(calendar.specialEvents)}
+}
+`;
+};
+
+const github = async (config: GitHubConfig, path: string, init: RequestInit = {}) => {
+  const response = await fetch(`https://api.github.com/repos/${config.repo}${path}`, {
+    ...init,
+    headers: {
+      'Accept': 'application/vnd.github+json',
+      'Authorization': `Bearer ${config.token}`,
+      'Content-Type': 'application/json',
+      'User-Agent': 'topperbus-calendar-reminder',
+    },
+  });
+  return response;
+};
+
+const toBase64 = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(text.replace(/\n/g, '')), c => c.charCodeAt(0)));
+
+/** The calendar file on the base branch, with its blob sha for updating it */
+export const fetchCurrentCalendar = async (config: GitHubConfig): Promise<{ calendar: ServiceCalendar; sha: string }> => {
+  const response = await github(config, `/contents/${CALENDAR_PATH}?ref=${encodeURIComponent(config.baseBranch)}`);
+  if (!response.ok) throw new Error(`GitHub contents ${response.status}: ${await response.text()}`);
+  const file = await response.json();
+  return { calendar: JSON.parse(fromBase64(file.content)), sha: file.sha };
+};
+
+// Short content hash, so re-running on an unchanged registrar calendar finds the same branch
+const proposalId = async (content: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest).slice(0, 4), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Open a pull request updating the calendar file
+ * @returns The pull request URL, and whether it already existed from an earlier run
+ */
+export const openCalendarPullRequest = async (
+  config: GitHubConfig,
+  proposed: ServiceCalendar,
+  currentSha: string,
+  diff: string[],
+  sourceUrl: string
+): Promise<{ url: string; alreadyOpen: boolean }> => {
+  const content = formatCalendarFile(proposed);
+  const branch = `calendar-update-${await proposalId(content)}`;
+
+  const existing = await github(config, `/pulls?state=open&head=${encodeURIComponent(`${config.repo.split('/')[0]}:${branch}`)}`);
+  if (existing.ok) {
+    const [pull] = await existing.json();
+    if (pull) return { url: pull.html_url, alreadyOpen: true };
+  }
+
+  const baseRef = await github(config, `/git/ref/heads/${encodeURIComponent(config.baseBranch)}`);
+  if (!baseRef.ok) throw new Error(`GitHub ref ${baseRef.status}: ${await baseRef.text()}`);
+  const { object } = await baseRef.json();
+
+  const createdRef = await github(config, '/git/refs', {
+    method: 'POST',
+    body: JSON.stringify({ ref: `refs/heads/${branch}`, sha: object.sha }),
+  });
+  // 422: the branch survives from an earlier run whose pull request was closed; reuse it
+  if (!createdRef.ok && createdRef.status !== 422) {
+    throw new Error(`GitHub create ref ${createdRef.status}: ${await createdRef.text()}`);
+  }
+
+  const updated = await github(config, `/contents/${CALENDAR_PATH}`, {
+    method: 'PUT',
+    body: JSON.stringify({
+      message: 'Update service calendar from the registrar',
+      content: toBase64(content),
+      sha: currentSha,
+      branch,
+    }),
+  });
+  // 409/422: the branch already has this content
+  if (!updated.ok && updated.status !== 409 && updated.status !== 422) {
+    throw new Error(`GitHub update file ${updated.status}: ${await updated.text()}`);
+  }
+
+  const pull = await github(config, '/pulls', {
+    method: 'POST',
+    body: JSON.stringify({
+      title: 'Update service calendar from the registrar',
+      head: branch,
+      base: config.baseBranch,
+      body: [
+        `Proposed from ${sourceUrl}. Check the dates against the registrar before merging;`,
+        'merging is the approval. Run `npm run validate-calendar` to check for overlaps and gaps.',
+        '',
+        '```diff',
+        ...diff,
+        '```',
+      ].join('\n'),
+    }),
+  });
+  if (!pull.ok) throw new Error(`GitHub create pull request ${pull.status}: ${await pull.text()}`);
+  const created = await pull.json();
+  return { url: created.html_url, alreadyOpen: false };
+};
@@ -0,0 +1,235 @@
+// Reading the registrar's academic calendar.
+// The registrar publishes an HTML page (a table of dates per term) and, for
+// some years, an ICS feed. Both are reduced to dated events, and from those
+// extractServicePeriods picks the fall/spring terms buses run in and the
+// breaks without service.
+
+export interface CalendarPeriod {
+  name: string;
+  /** First day, "YYYY-MM-DD" */
+  start: string;
+  /** Last day, inclusive */
+  end: string;
+}
+
+export interface RegistrarEvent {
+  /** Term heading the event was listed under, e.g. "Fall 2026" */
+  term: string | null;
+  name: string;
+  start: string;
+  end: string;
+}
+
+export interface ExtractedPeriods {
+  terms: CalendarPeriod[];
+  breaks: CalendarPeriod[];
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+const MONTH_NAME = 'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?';
+
+const TERM_PATTERN = /\b(Fall|Spring|Winter|Summer)\s+(?:Semester\s+|Term\s+)?(\d{4})\b/i;
+// "August 24", "Aug. 24, 2026", "Nov 25 - 27", "Dec. 31, 2026 – Jan. 3, 2027"
+const DATE_RANGE_PATTERN = new RegExp(
+  `\\b(${MONTH_NAME})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s*(\\d{4}))?` +
+  `(?:\\s*[-–—]\\s*(?:(${MONTH_NAME})\\.?\\s+)?(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s*(\\d{4}))?)?`,
+  'i'
+);
+
+const CLASSES_BEGIN_PATTERN = /\b(classes begin|first day of classes)\b/i;
+const CLASSES_END_PATTERN = /\b(last day of classes|final exam\w*|finals)\b/i;
+const BREAK_PATTERN = /\b(break|holiday|recess|no classes|university closed)\b/i;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateKey = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+const addDays = (key: string, days: number): string => {
+  const date = new Date(`${key}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+const monthNumber = (name: string | undefined): number | null =>
+  name ? MONTHS[name.toLowerCase().slice(0, 3)] ?? null : null;
+
+// The calendar year a month falls in for a term heading: winter terms span New Year
+const yearForMonth = (term: string | null, month: number): number | null => {
+  const match = term?.match(TERM_PATTERN);
+  if (!match) return null;
+  const year = parseInt(match[2], 10);
+  return match[1].toLowerCase() === 'winter' && month >= 8 ? year - 1 : year;
+};
+
+/**
+ * Dates written out in words, like the registrar's tables
+ * @param text e.g. "Wednesday, Nov. 25 - 27"
+ * @param term Heading the date was listed under, for the year when it isn't written
+ */
+export const parseDateRange = (text: string, term: string | null): { start: string; end: string } | null => {
+  const match = text.match(DATE_RANGE_PATTERN);
+  if (!match) return null;
+  const [, startMonthName, startDay, startYearText, endMonthName, endDay, endYearText] = match;
+
+  const startMonth = monthNumber(startMonthName);
+  if (!startMonth) return null;
+  const endMonth = endDay ? monthNumber(endMonthName) ?? startMonth : startMonth;
+
+  const startYear = startYearText ? parseInt(startYearText, 10) : (endYearText && !endMonthName ? parseInt(endYearText, 10) : yearForMonth(term, startMonth));
+  const endYear = endYearText ? parseInt(endYearText, 10) : (endMonth < startMonth ? (startYear ?? 0) + 1 : startYear);
+  if (!startYear || !endYear) return null;
+
+  const start = toDateKey(startYear, startMonth, parseInt(startDay, 10));
+  const end = toDateKey(endYear, endMonth, parseInt(endDay || startDay, 10));
+  return end >= start ? { start, end } : null;
+};
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&(ndash|#8211);/g, '–')
+    .replace(/&(mdash|#8212);/g, '—')
+    .replace(/&#39;|&rsquo;|&#8217;/g, "'")
+    .replace(/&quot;/g, '"');
+
+const stripTags = (html: string): string =>
+  decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+/**
+ * Events from the registrar's HTML calendar
+ * Headings name the term; each table row has a date cell and an event cell, in either order.
+ */
+export const parseRegistrarHtml = (html: string): RegistrarEvent[] => {
+  const body = html.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '');
+  const events: RegistrarEvent[] = [];
+  let term: string | null = null;
+
+  const blocks = body.matchAll(/<(h[1-6]|caption|tr)[^>]*>([\s\S]*?)<\/\1>/gi);
+  for (const [, tag, content] of blocks) {
+    if (tag.toLowerCase() !== 'tr') {
+      const heading = stripTags(content).match(TERM_PATTERN);
+      if (heading) term = heading[0];
+      continue;
+    }
+
+    const cells = Array.from(content.matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi), cell => stripTags(cell[1]));
+    if (cells.length < 2) continue;
+    const dateIndex = cells.findIndex(cell => parseDateRange(cell, term));
+    if (dateIndex === -1) continue;
+
+    const dates = parseDateRange(cells[dateIndex], term)!;
+    const name = cells.filter((_, i) => i !== dateIndex).join(' ').trim();
+    if (name) events.push({ term, name, ...dates });
+  }
+
+  return events;
+};
+
+const unfoldIcsLines = (text: string): string[] =>
+  text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+const icsDate = (value: string | undefined): string | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/**
+ * Events from an ICS feed
+ * All-day DTENDs are exclusive, so they're moved back a day.
+ */
+export const parseRegistrarIcs = (text: string): RegistrarEvent[] => {
+  const events: RegistrarEvent[] = [];
+  let event: Record<string, string> | null = null;
+
+  for (const line of unfoldIcsLines(text)) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+    } else if (line === 'END:VEVENT' && event) {
+      const start = icsDate(event.DTSTART);
+      const isAllDay = !!event.DTSTART && !event.DTSTART.includes('T');
+      const rawEnd = icsDate(event.DTEND);
+      const end = rawEnd && isAllDay ? addDays(rawEnd, -1) : rawEnd;
+      const name = (event.SUMMARY || '').replace(/\\([,;\\])/g, '$1').trim();
+      if (start && name) {
+        const month = parseInt(start.slice(5, 7), 10);
+        // ICS feeds don't group by term, so name one after the season it falls in
+        const season = month >= 8 ? 'Fall' : month <= 5 ? 'Spring' : 'Summer';
+        const term = name.match(TERM_PATTERN)?.[0] ?? `${season} ${start.slice(0, 4)}`;
+        events.push({ term, name, start, end: end && end >= start ? end : start });
+      }
+      event = null;
+    } else if (event) {
+      const separator = line.indexOf(':');
+      if (separator !== -1) {
+        event[line.slice(0, separator).split(';')[0].toUpperCase()] = line.slice(separator + 1);
+      }
+    }
+  }
+
+  return events;
+};
+
+/** Parse whichever format the registrar served */
+export const parseRegistrarCalendar = (text: string): RegistrarEvent[] =>
+  text.includes('BEGIN:VCALENDAR') ? parseRegistrarIcs(text) : parseRegistrarHtml(text);
+
+// "Thanksgiving Holiday (no classes, offices closed)" -> "Thanksgiving Break"
+const breakName = (name: string): string => {
+  if (/thanksgiving/i.test(name)) return 'Thanksgiving Break';
+  const named = name.match(/\b(Fall|Spring|Winter|Summer)\s+Break\b/i);
+  if (named) return `${named[1][0].toUpperCase()}${named[1].slice(1).toLowerCase()} Break`;
+  return name.replace(/\s*[(–—-].*$/, '').trim() || name;
+};
+
+/**
+ * The service periods in a registrar calendar
+ * Fall and spring terms run from the first day of classes to the end of finals
+ * (or the last day of classes); breaks are the dated closures plus the winter and
+ * summer breaks between consecutive terms.
+ */
+export const extractServicePeriods = (events: RegistrarEvent[]): ExtractedPeriods => {
+  const byTerm = new Map<string, RegistrarEvent[]>();
+  events.forEach(event => {
+    const term = event.term?.match(TERM_PATTERN);
+    // Buses only run in the fall and spring semesters
+    if (!term || !/^(fall|spring)$/i.test(term[1])) return;
+    const key = `${term[1][0].toUpperCase()}${term[1].slice(1).toLowerCase()} ${term[2]}`;
+    byTerm.set(key, [...(byTerm.get(key) ?? []), event]);
+  });
+
+  const terms: CalendarPeriod[] = [];
+  const breaks: CalendarPeriod[] = [];
+
+  byTerm.forEach((termEvents, name) => {
+    const begin = termEvents.filter(e => CLASSES_BEGIN_PATTERN.test(e.name)).sort((a, b) => a.start.localeCompare(b.start))[0];
+    const ends = termEvents.filter(e => CLASSES_END_PATTERN.test(e.name)).map(e => e.end).sort();
+    if (begin && ends.length > 0) {
+      terms.push({ name, start: begin.start, end: ends[ends.length - 1] });
+    }
+
+    termEvents
+      .filter(e => BREAK_PATTERN.test(e.name) && !CLASSES_BEGIN_PATTERN.test(e.name))
+      .forEach(e => breaks.push({ name: breakName(e.name), start: e.start, end: e.end }));
+  });
+
+  terms.sort((a, b) => a.start.localeCompare(b.start));
+  const betweenTerms: CalendarPeriod[] = [];
+  for (let i = 1; i < terms.length; i++) {
+    const start = addDays(terms[i - 1].end, 1);
+    const end = addDays(terms[i].start, -1);
+    if (end >= start) {
+      betweenTerms.push({ name: terms[i].name.startsWith('Spring') ? 'Winter Break' : 'Summer Break', start, end });
+    }
+  }
+
+  // Holidays between terms (MLK Day before spring classes) are part of the longer break
+  const withinTerms = breaks.filter(b => !betweenTerms.some(gap => b.start >= gap.start && b.end <= gap.end));
+  // The same closure is often listed twice (e.g. under a term and as a holiday)
+  const unique = new Map([...withinTerms, ...betweenTerms].map(b => [`${b.start}|${b.end}`, b]));
+  return {
+    terms,
+    breaks: Array.from(unique.values()).sort((a, b) => a.start.localeCompare(b.start)),
+  };
+};
@@ -0,0 +1,102 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Cross-device preference sync.
+// `pull` returns every section stored under a sync key; `push` stores one
+// section unless the stored copy is newer (last write wins per section), in a
+// single statement (see the push_preference_section migration).
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SECTION_PATTERN = /^[a-z][a-zA-Z0-9:_-]{0,63}$/;
+// Preferences are small; anything bigger is abuse
+const MAX_SECTION_BYTES = 32 * 1024;
+const MAX_SECTIONS = 20;
+
+interface SyncedSection {
+  data: unknown;
+  updatedAt: number;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const getDatabase = () =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+
+type Database = ReturnType<typeof getDatabase>;
+
+async function loadSections(db: Database, syncKey: string): Promise<Record<string, SyncedSection>> {
+  const { data, error } = await db.from('preference_sync').select('sections').eq('sync_key', syncKey).maybeSingle();
+  if (error) throw error;
+  return (data?.sections as Record<string, SyncedSection>) ?? {};
+}
+
+// One key is set in place by the push_preference_section function, so devices
+// pushing different sections at the same time don't overwrite each other
+async function push(db: Database, syncKey: string, section: string, value: SyncedSection) {
+  const { data, error } = await db.rpc('push_preference_section', {
+    p_sync_key: syncKey,
+    p_section: section,
+    p_value: value,
+    p_max_sections: MAX_SECTIONS,
+  });
+  if (error) throw error;
+
+  const result = data as { applied: boolean; section: SyncedSection | null };
+  if (result.applied) return json({ success: true, applied: true });
+  if (!result.section) return json({ error: 'Too many sections' }, 400);
+  return json({ success: true, applied: false, section: result.section });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: 'Invalid JSON body' }, 400);
+    }
+
+    const syncKey = body?.syncKey;
+    if (typeof syncKey !== 'string' || !UUID_PATTERN.test(syncKey)) {
+      return json({ error: 'Invalid sync key' }, 400);
+    }
+
+    const db = getDatabase();
+
+    if (body.action === 'pull') {
+      return json({ sections: await loadSections(db, syncKey) });
+    }
+
+    if (body.action === 'push') {
+      const { section, value } = body as { section: unknown; value: SyncedSection };
+      if (typeof section !== 'string' || !SECTION_PATTERN.test(section) ||
+          !value || typeof value.updatedAt !== 'number' || value.data === undefined) {
+        return json({ error: 'Invalid request body' }, 400);
+      }
+      if (new TextEncoder().encode(JSON.stringify(value)).length > MAX_SECTION_BYTES) {
+        return json({ error: 'Section too large' }, 413);
+      }
+      return await push(db, syncKey, section, value);
+    }
+
+    return json({ error: 'Unknown action' }, 400);
+  } catch (error: unknown) {
+    console.error('Error in sync-preferences function:', error);
+    return json({ success: false, error: 'An unexpected error occurred' }, 500);
+  }
+});
@@ -0,0 +1,54 @@
+-- Web Push arrival alerts
+-- Browsers register a push subscription plus one rule per alert through the
+-- arrival-alerts edge function; pg_cron calls the same function every minute
+-- to check predictions and push the alerts that are due.
+-- Only the edge function (service role) touches these tables.
+
+CREATE TABLE public.push_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.arrival_alert_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subscription_id UUID NOT NULL REFERENCES public.push_subscriptions(id) ON DELETE CASCADE,
+  stop_tag TEXT NOT NULL,
+  stop_id TEXT NOT NULL,
+  stop_title TEXT NOT NULL,
+  route_tag TEXT NOT NULL,
+  route_title TEXT NOT NULL,
+  lead_minutes INTEGER NOT NULL CHECK (lead_minutes BETWEEN 1 AND 30),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '2 hours'
+);
+
+CREATE INDEX arrival_alert_rules_subscription_idx ON public.arrival_alert_rules (subscription_id);
+CREATE INDEX arrival_alert_rules_expires_idx ON public.arrival_alert_rules (expires_at);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.arrival_alert_rules ENABLE ROW LEVEL SECURITY;
+
+-- Poll every minute. The function checks the bearer token against
+-- ARRIVAL_ALERTS_SECRET; store the same value in the vault first:
+--   SELECT vault.create_secret('<secret>', 'arrival_alerts_secret');
+SELECT cron.schedule(
+  'arrival-alerts-poll',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://gfiaxxqvwivlzpnahvoo.supabase.co/functions/v1/arrival-alerts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || coalesce(
+        (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'arrival_alerts_secret'),
+        ''
+      )
+    ),
+    body := '{"action": "poll"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,13 @@
+-- Optional cross-device sync for locally stored preferences (favorites etc.)
+-- There are no accounts: a browser that turns sync on generates a random sync
+-- key, and any device given that key reads and writes the same document.
+-- Only the sync-preferences edge function (service role) touches this table.
+
+CREATE TABLE public.preference_sync (
+  sync_key UUID NOT NULL PRIMARY KEY,
+  -- { "<section>": { "data": ..., "updatedAt": <ms> } }
+  sections JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.preference_sync ENABLE ROW LEVEL SECURITY;
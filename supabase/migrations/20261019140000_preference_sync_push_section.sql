@@ -0,0 +1,45 @@
+-- Store one preference section atomically.
+-- The sync-preferences edge function used to read the whole sections document
+-- and write it back, so two devices pushing different sections at once could
+-- drop one of them. This sets a single key in place; the row lock taken by the
+-- upsert serializes concurrent pushes, and the WHERE clause keeps the
+-- last-write-wins check (and the section limit) inside the same statement.
+-- Returns {"applied": true}, or {"applied": false, "section": <stored copy>}
+-- when the stored copy is at least as new (section is null when the limit
+-- was hit instead).
+
+CREATE OR REPLACE FUNCTION public.push_preference_section(
+  p_sync_key UUID,
+  p_section TEXT,
+  p_value JSONB,
+  p_max_sections INTEGER
+) RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  stored JSONB;
+BEGIN
+  INSERT INTO public.preference_sync AS p (sync_key, sections)
+  VALUES (p_sync_key, jsonb_build_object(p_section, p_value))
+  ON CONFLICT (sync_key) DO UPDATE
+    SET sections = jsonb_set(p.sections, ARRAY[p_section], p_value),
+        updated_at = now()
+    WHERE CASE
+      WHEN p.sections ? p_section
+        THEN (p.sections -> p_section ->> 'updatedAt')::NUMERIC < (p_value ->> 'updatedAt')::NUMERIC
+      ELSE (SELECT count(*) FROM jsonb_object_keys(p.sections)) < p_max_sections
+    END;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('applied', true);
+  END IF;
+
+  SELECT sections -> p_section INTO stored FROM public.preference_sync WHERE sync_key = p_sync_key;
+  RETURN jsonb_build_object('applied', false, 'section', stored);
+END;
+$$;
+
+-- Only the edge function (service role) calls it
+REVOKE EXECUTE ON FUNCTION public.push_preference_section(UUID, TEXT, JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.push_preference_section(UUID, TEXT, JSONB, INTEGER) TO service_role;
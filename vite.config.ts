@@ -41,18 +41,32 @@ export default defineConfig(({ mode }) => ({
       },
       workbox: {
         globPatterns: ["**/*.{js,css,html,ico,png,svg}"],
+        // Arrival alert notification clicks and Web Push
+        importScripts: ["/alert-sw.js"],
         runtimeCaching: [
           {
-            urlPattern: /^https:\/\/retro\.umoiq\.com\/.*/i,
+            // Route config changes once a semester, so a day-old copy is fine
+            urlPattern: /^https:\/\/retro\.umoiq\.com\/.*[?&]command=routeConfig\b/i,
             handler: "NetworkFirst",
             options: {
-              cacheName: "transit-api-cache",
+              cacheName: "transit-route-config-cache",
+              networkTimeoutSeconds: 5,
               expiration: {
-                maxEntries: 50,
-                maxAgeSeconds: 60,
+                maxEntries: 10,
+                maxAgeSeconds: 60 * 60 * 24,
+              },
+              cacheableResponse: {
+                statuses: [0, 200],
               },
             },
           },
+          {
+            // Vehicles and predictions must be live or fail: a cached copy would come
+            // back with a fresh timestamp and show as live. Last-known data for offline
+            // use already lives in IndexedDB and the query cache.
+            urlPattern: /^https:\/\/retro\.umoiq\.com\/.*/i,
+            handler: "NetworkOnly",
+          },
           {
             urlPattern: /^https:\/\/.*\.basemaps\.cartocdn\.com\/.*/i,
             handler: "CacheFirst",